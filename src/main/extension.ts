@@ -21,6 +21,23 @@ import * as vscode from 'vscode';
 import { PayaraInstanceProvider } from "./fish/payara/server/PayaraInstanceProvider";
 import { PayaraServerInstanceController } from "./fish/payara/server/PayaraServerInstanceController";
 import { PayaraServerTreeDataProvider } from "./fish/payara/server/PayaraServerTreeDataProvider";
+import { AsadminCommandRunner } from './fish/payara/server/AsadminCommandRunner';
+import { ServerStateWatcher } from './fish/payara/server/ServerStateWatcher';
+import { JdbcController } from './fish/payara/server/jdbc/JdbcController';
+import { DeploymentProfileController } from './fish/payara/project/DeploymentProfileController';
+import { ApplicationDetailsPanel } from './fish/payara/project/ApplicationDetailsPanel';
+import { RestRequestPanel } from './fish/payara/project/RestRequestPanel';
+import { OpenApiController } from './fish/payara/project/openapi/OpenApiController';
+import { MonitoringDashboard } from './fish/payara/project/monitoring/MonitoringDashboard';
+import { LogViewer } from './fish/payara/server/log/LogViewer';
+import { StackTraceLinkProvider } from './fish/payara/project/StackTraceLinkProvider';
+import { OUTPUT_SCHEME } from './fish/payara/project/ProjectOutputWindowProvider';
+import { PAYARA_DEBUG_TYPE, PayaraDebugConfigurationProvider } from './fish/payara/project/PayaraDebugConfigurationProvider';
+import { ClusterController } from './fish/payara/server/cluster/ClusterController';
+import { DomainController } from './fish/payara/server/domain/DomainController';
+import { JvmOptionsController } from './fish/payara/server/JvmOptionsController';
+import { LaunchProfileController } from './fish/payara/server/LaunchProfileController';
+import { RemoteDebugController } from './fish/payara/server/RemoteDebugController';
 import { PayaraMicroProjectGenerator } from './fish/payara/micro/PayaraMicroProjectGenerator';
 import { PayaraMicroTreeDataProvider } from './fish/payara/micro/PayaraMicroTreeDataProvider';
 import { PayaraMicroInstanceProvider } from './fish/payara/micro/PayaraMicroInstanceProvider';
@@ -35,11 +52,26 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 	const payaraServerInstanceProvider: PayaraInstanceProvider = new PayaraInstanceProvider(context);
 	const payaraServerTree: PayaraServerTreeDataProvider = new PayaraServerTreeDataProvider(context, payaraServerInstanceProvider);
 	const payaraServerInstanceController: PayaraServerInstanceController = new PayaraServerInstanceController(context, payaraServerInstanceProvider, context.extensionPath);
+	const asadminCommandRunner: AsadminCommandRunner = new AsadminCommandRunner(context, payaraServerInstanceController);
+	const jdbcController: JdbcController = new JdbcController(payaraServerInstanceController);
+	const jvmOptionsController: JvmOptionsController = new JvmOptionsController();
+	const launchProfileController: LaunchProfileController = new LaunchProfileController(payaraServerInstanceController);
+	const remoteDebugController: RemoteDebugController = new RemoteDebugController(payaraServerInstanceController);
+	const deploymentProfileController: DeploymentProfileController = new DeploymentProfileController();
+	const clusterController: ClusterController = new ClusterController(payaraServerInstanceController);
+	const domainController: DomainController = new DomainController(payaraServerInstanceProvider, payaraServerInstanceController);
+	const openApiController: OpenApiController = new OpenApiController();
 
 	const payaraMicroInstanceProvider: PayaraMicroInstanceProvider = new PayaraMicroInstanceProvider(context);
 	const payaraMicroTree: PayaraMicroTreeDataProvider = new PayaraMicroTreeDataProvider(context, payaraMicroInstanceProvider);
 	const payaraMicroInstanceController: PayaraMicroInstanceController = new PayaraMicroInstanceController(context, payaraMicroInstanceProvider, context.extensionPath);
 	const payaraMicroProjectGenerator: PayaraMicroProjectGenerator = new PayaraMicroProjectGenerator(payaraMicroInstanceController);
+	const stackTraceLinkProvider: StackTraceLinkProvider = new StackTraceLinkProvider();
+	const payaraDebugConfigurationProvider: PayaraDebugConfigurationProvider = new PayaraDebugConfigurationProvider(
+		payaraServerInstanceProvider, payaraServerInstanceController,
+		payaraMicroInstanceProvider, payaraMicroInstanceController
+	);
+	const serverStateWatcher: ServerStateWatcher = new ServerStateWatcher(payaraServerInstanceProvider);
 
 	context.subscriptions.push(
 		vscode.window.registerTreeDataProvider(
@@ -61,6 +93,20 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			'payaraMicro', payaraMicroTree
 		)
 	);
+	context.subscriptions.push(
+		vscode.languages.registerDocumentLinkProvider(
+			{ scheme: OUTPUT_SCHEME }, stackTraceLinkProvider
+		),
+		stackTraceLinkProvider
+	);
+	context.subscriptions.push(
+		vscode.debug.registerDebugConfigurationProvider(
+			PAYARA_DEBUG_TYPE, payaraDebugConfigurationProvider
+		)
+	);
+	serverStateWatcher.start();
+	context.subscriptions.push(serverStateWatcher);
+	context.subscriptions.push(clusterController);
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'payara.server.add',
@@ -127,6 +173,24 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		}
 		)
 	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.start.profile',
+			payaraServer => launchProfileController.startServer(payaraServer)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.launch.profiles',
+			payaraServer => launchProfileController.editProfiles(payaraServer)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.debug.port',
+			payaraServer => remoteDebugController.editDebugPort(payaraServer)
+		)
+	);
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'payara.server.restart',
@@ -139,6 +203,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			payaraServer => payaraServerInstanceController.stopServer(payaraServer)
 		)
 	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.stop.force',
+			payaraServer => payaraServerInstanceController.forceStopServer(payaraServer)
+		)
+	);
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'payara.server.rename',
@@ -157,18 +227,54 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			payaraServer => payaraServerInstanceController.updateCredentials(payaraServer)
 		)
 	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.asadmin.run',
+			payaraServer => asadminCommandRunner.runCommand(payaraServer)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.dashboard',
+			payaraServer => MonitoringDashboard.showServer(payaraServer)
+		)
+	);
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'payara.server.jdk.home',
 			payaraServer => payaraServerInstanceController.updateJDKHome(payaraServer)
 		)
 	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.jvm.options',
+			payaraServer => jvmOptionsController.editJvmOptions(payaraServer)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.domain.create',
+			payaraServer => domainController.createDomain(payaraServer)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.domain.delete',
+			payaraServer => domainController.deleteDomain(payaraServer)
+		)
+	);
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'payara.server.deploy.settings',
 			payaraServer => payaraServerInstanceController.deploySettings(payaraServer)
 		)
 	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.deploy.profile',
+			uri => deploymentProfileController.editProfile(uri instanceof Uri ? uri : undefined)
+		)
+	);
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'payara.server.console.open',
@@ -181,6 +287,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			payaraServer => payaraServerInstanceController.openLog(payaraServer)
 		)
 	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.log.view',
+			payaraServer => LogViewer.show(payaraServer)
+		)
+	);
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'payara.server.config.open',
@@ -229,18 +341,126 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			application => payaraServerInstanceController.disableApp(application)
 		)
 	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.app.redeploy',
+			application => payaraServerInstanceController.redeployApp(application)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.app.details',
+			application => ApplicationDetailsPanel.show(application)
+		)
+	);
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'payara.server.app.home',
 			application => payaraServerInstanceController.openApp(application)
 		)
 	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.jdbc.pool.create',
+			jdbcNode => jdbcController.createConnectionPool(jdbcNode)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.jdbc.resource.create',
+			item => jdbcController.createResource(item)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.jdbc.pool.ping',
+			pool => jdbcController.pingConnectionPool(pool)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.jdbc.pool.properties',
+			pool => jdbcController.editPoolProperties(pool)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.jdbc.pool.delete',
+			pool => jdbcController.deleteConnectionPool(pool)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.jdbc.resource.delete',
+			resource => jdbcController.deleteResource(resource)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.deploy.target',
+			payaraServer => clusterController.selectDeployTarget(payaraServer)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.instance.start',
+			instance => clusterController.startInstance(instance)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.instance.stop',
+			instance => clusterController.stopInstance(instance)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.instance.log',
+			instance => clusterController.openInstanceLog(instance)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.deployment.group.start',
+			deploymentGroup => clusterController.startDeploymentGroup(deploymentGroup)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.deployment.group.stop',
+			deploymentGroup => clusterController.stopDeploymentGroup(deploymentGroup)
+		)
+	);
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'payara.server.app.rest.endpoint',
 			restEndpoint => payaraServerInstanceController.openRestEndpoint(restEndpoint)
 		)
 	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.server.app.rest.request',
+			restEndpoint => RestRequestPanel.show(context, restEndpoint)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.openapi.refresh',
+			node => openApiController.refresh(node)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.openapi.export',
+			node => openApiController.exportSpec(node)
+		)
+	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.openapi.source',
+			operation => openApiController.goToSource(operation)
+		)
+	);
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'payara.server.app.migrate',
@@ -308,6 +528,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 			payaraMicro => payaraMicroInstanceController.deploySettings(payaraMicro)
 		)
 	);
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'payara.micro.dashboard',
+			payaraMicro => MonitoringDashboard.showMicro(payaraMicro)
+		)
+	);
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'payara.micro.create.project',
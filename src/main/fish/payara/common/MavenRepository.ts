@@ -0,0 +1,281 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as fse from 'fs-extra';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { URL, fileURLToPath } from 'url';
+import { parseStringPromise } from 'xml2js';
+import { CancellationToken } from 'vscode';
+
+export const DEFAULT_REPOSITORY_URL = 'https://repo1.maven.org/maven2/';
+
+/**
+ * Checksum files published next to the artifacts, strongest first.
+ */
+const CHECKSUM_ALGORITHMS: Array<{ extension: string, algorithm: string }> = [
+    { extension: 'sha512', algorithm: 'sha512' },
+    { extension: 'sha256', algorithm: 'sha256' },
+    { extension: 'sha1', algorithm: 'sha1' },
+    { extension: 'md5', algorithm: 'md5' }
+];
+
+/**
+ * Reads artifacts from a remote Maven repository, a mirror or a local
+ * repository given as file URL or directory path.
+ */
+export class MavenRepository {
+
+    private repositoryUrl: string;
+
+    constructor(repositoryUrl?: string) {
+        let url = repositoryUrl ? repositoryUrl : MavenRepository.getConfiguredUrl();
+        this.repositoryUrl = url.endsWith('/') ? url : url + '/';
+    }
+
+    /**
+     * @returns the payara.repositoryUrl setting, Maven Central by default.
+     */
+    public static getConfiguredUrl(): string {
+        let url = vscode.workspace.getConfiguration('payara').get<string>('repositoryUrl');
+        return url && url.trim().length > 0 ? url.trim() : DEFAULT_REPOSITORY_URL;
+    }
+
+    public getUrl(): string {
+        return this.repositoryUrl;
+    }
+
+    /**
+     * @returns the released versions of the artifact, newest first. Alpha,
+     * Beta and SNAPSHOT versions are skipped unless they are the latest one.
+     */
+    public async getVersions(groupId: string, artifactId: string): Promise<string[]> {
+        let metadataFiles = await this.readMetadata(this.getArtifactPath(groupId, artifactId));
+        let latest = '';
+        let versionNodes: string[] = [];
+        for (let metadata of metadataFiles) {
+            let xmlDoc = await parseStringPromise(metadata);
+            let versioning = xmlDoc.metadata.versioning ? xmlDoc.metadata.versioning[0] : undefined;
+            if (!versioning || !versioning.versions) {
+                continue;
+            }
+            if (versioning.latest && MavenRepository.compareVersions(versioning.latest[0], latest) > 0) {
+                latest = versioning.latest[0];
+            }
+            for (let version of versioning.versions[0].version as string[]) {
+                if (versionNodes.indexOf(version) < 0) {
+                    versionNodes.push(version);
+                }
+            }
+        }
+        if (metadataFiles.length > 1) {
+            versionNodes.sort(MavenRepository.compareVersions);
+        }
+        let versions: string[] = [];
+        for (let i = versionNodes.length - 1; i >= 0; i--) {
+            let version = versionNodes[i] || '';
+            if ((version.includes("Alpha") || version.includes("Beta") || version.includes("SNAPSHOT")) && version !== latest) {
+                continue;
+            }
+            versions.push(version);
+        }
+        return versions;
+    }
+
+    /**
+     * Reads the maven-metadata.xml of a remote repository. A local repository
+     * has instead a maven-metadata-local.xml for the installed versions and a
+     * maven-metadata-<repoId>.xml per repository the versions were
+     * downloaded from.
+     *
+     * @returns the content of the metadata files of the artifact.
+     */
+    private async readMetadata(artifactPath: string): Promise<string[]> {
+        try {
+            return [await this.readText(artifactPath + 'maven-metadata.xml')];
+        } catch (error) {
+            let localPath = this.getLocalPath(artifactPath);
+            if (!localPath || !await fse.pathExists(localPath)) {
+                throw error;
+            }
+            let directory: string = localPath;
+            let files = (await fse.readdir(directory)).filter(file => /^maven-metadata-.+\.xml$/.test(file));
+            if (files.length === 0) {
+                throw error;
+            }
+            return Promise.all(files.map(file => fse.readFile(path.join(directory, file), 'utf8')));
+        }
+    }
+
+    /**
+     * Downloads the artifact and verifies it against the checksum published
+     * in the repository.
+     *
+     * @param target   file to write the artifact to.
+     * @param progress called with the downloaded and total bytes, total is
+     *                 undefined if unknown.
+     */
+    public async download(
+        groupId: string, artifactId: string, version: string, extension: string, target: string,
+        progress?: (downloaded: number, total?: number) => any,
+        token?: CancellationToken): Promise<void> {
+
+        let artifact = `${this.getArtifactPath(groupId, artifactId)}${version}/${artifactId}-${version}.${extension}`;
+        let checksum = await this.readChecksum(artifact);
+        if (!checksum) {
+            throw new Error(`No checksum found for ${this.repositoryUrl}${artifact}`);
+        }
+        await this.copy(artifact, target, progress, token);
+        let actual = await MavenRepository.hash(target, checksum.algorithm);
+        if (actual !== checksum.value) {
+            await fse.remove(target);
+            throw new Error(`Checksum mismatch for ${artifactId}-${version}.${extension}, expected ${checksum.algorithm} ${checksum.value} but was ${actual}`);
+        }
+    }
+
+    private async readChecksum(artifact: string): Promise<{ algorithm: string, value: string } | undefined> {
+        for (let checksum of CHECKSUM_ALGORITHMS) {
+            try {
+                let text = await this.readText(`${artifact}.${checksum.extension}`);
+                // checksum files may contain the file name after the hash
+                let value = text.trim().split(/\s+/)[0].toLowerCase();
+                if (value) {
+                    return { algorithm: checksum.algorithm, value: value };
+                }
+            } catch (error) {
+                // try the next algorithm
+            }
+        }
+        return undefined;
+    }
+
+    private async readText(relativePath: string): Promise<string> {
+        let localPath = this.getLocalPath(relativePath);
+        if (localPath) {
+            return fse.readFile(localPath, 'utf8');
+        }
+        let response = await fetch(this.repositoryUrl + relativePath, { method: 'GET' });
+        if (!response.ok) {
+            throw new Error(`Unable to fetch ${this.repositoryUrl}${relativePath}, Response Code: ${response.status}`);
+        }
+        return response.text();
+    }
+
+    private async copy(
+        relativePath: string, target: string,
+        progress?: (downloaded: number, total?: number) => any,
+        token?: CancellationToken): Promise<void> {
+
+        await fse.ensureDir(path.dirname(target));
+        let localPath = this.getLocalPath(relativePath);
+        if (localPath) {
+            await fse.copy(localPath, target);
+            return;
+        }
+        let controller = new AbortController();
+        let cancellation = token ? token.onCancellationRequested(() => controller.abort()) : undefined;
+        let output = fs.createWriteStream(target);
+        try {
+            let response = await fetch(this.repositoryUrl + relativePath, { method: 'GET', signal: controller.signal });
+            if (!response.ok || !response.body) {
+                throw new Error(`Unable to download ${this.repositoryUrl}${relativePath}, Response Code: ${response.status}`);
+            }
+            let length = response.headers.get('content-length');
+            let total = length ? parseInt(length, 10) : undefined;
+            let downloaded = 0;
+            let reader = response.body.getReader();
+            while (true) {
+                let chunk = await reader.read();
+                if (chunk.done) {
+                    break;
+                }
+                downloaded += chunk.value.length;
+                if (!output.write(chunk.value)) {
+                    await new Promise(res => output.once('drain', res));
+                }
+                if (progress) {
+                    progress(downloaded, total);
+                }
+            }
+            await new Promise<void>((resolve, reject) => output.end((err: any) => err ? reject(err) : resolve()));
+        } catch (error) {
+            output.destroy();
+            await fse.remove(target);
+            if (token && token.isCancellationRequested) {
+                throw new Error('Download cancelled.');
+            }
+            throw error;
+        } finally {
+            if (cancellation) {
+                cancellation.dispose();
+            }
+        }
+    }
+
+    /**
+     * @returns the file system path if the repository is local, e.g
+     * file:///opt/m2/repository/ or /opt/m2/repository/
+     */
+    private getLocalPath(relativePath: string): string | undefined {
+        if (this.repositoryUrl.startsWith('file:')) {
+            return fileURLToPath(new URL(relativePath, this.repositoryUrl));
+        } else if (!/^[a-z][a-z0-9+.\-]+:\/\//i.test(this.repositoryUrl)) {
+            return path.join(this.repositoryUrl, ...relativePath.split('/'));
+        }
+        return undefined;
+    }
+
+    private getArtifactPath(groupId: string, artifactId: string): string {
+        return `${groupId.replace(/\./g, '/')}/${artifactId}/`;
+    }
+
+    /**
+     * Compares the numeric segments of the versions numerically, e.g
+     * 6.2024.10 is newer than 6.2024.9
+     */
+    private static compareVersions(version1: string, version2: string): number {
+        let segments1 = version1.split(/[.-]/);
+        let segments2 = version2.split(/[.-]/);
+        for (let i = 0; i < Math.max(segments1.length, segments2.length); i++) {
+            let segment1 = segments1[i] || '';
+            let segment2 = segments2[i] || '';
+            if (segment1 === segment2) {
+                continue;
+            }
+            if (/^\d+$/.test(segment1) && /^\d+$/.test(segment2)) {
+                return parseInt(segment1, 10) - parseInt(segment2, 10);
+            }
+            return segment1 < segment2 ? -1 : 1;
+        }
+        return 0;
+    }
+
+    private static hash(file: string, algorithm: string): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            let hash = crypto.createHash(algorithm);
+            fs.createReadStream(file)
+                .on('data', data => hash.update(data))
+                .on('error', reject)
+                .on('end', () => resolve(hash.digest('hex')));
+        });
+    }
+
+}
@@ -117,6 +117,9 @@ export class PayaraMicroInstance extends vscode.TreeItem implements vscode.Quick
         this.state = state;
         this.iconPath = vscode.Uri.file(this.context.asAbsolutePath(path.join('resources', this.getIcon())));
         this.contextValue = this.getState();
+        this.collapsibleState = this.isStarted()
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.None;
         this.tooltip = this.getPath().fsPath;
         vscode.commands.executeCommand('payara.micro.refresh', this);
     }
@@ -25,15 +25,15 @@ import { Maven } from '../project/Maven';
 import { OpenDialogOptions, Uri, WorkspaceFolder } from 'vscode';
 import { PayaraMicroProject } from './PayaraMicroProject';
 import { PayaraMicroInstanceController } from './PayaraMicroInstanceController';
-import { parseStringPromise } from "xml2js";
+import { MavenRepository } from '../common/MavenRepository';
 
 const TITLE = 'Generate a Payara Micro project';
 const TOTAL_STEP = 7;
 const DEFAULT_VERSION: string = '1.0.0-SNAPSHOT';
 const DEFAULT_ARTIFACT_ID: string = 'payara-micro-sample';
 const DEFAULT_GROUP_ID: string = 'fish.payara.micro.sample';
-const DEFAULT_REPOSITORY_URL = "https://repo1.maven.org/maven2/";
-const METADATA_URL = "fish/payara/extras/payara-micro/maven-metadata.xml";
+const PAYARA_MICRO_GROUP_ID = "fish.payara.extras";
+const PAYARA_MICRO_ARTIFACT_ID = "payara-micro";
 
 let versions: string[] | null = null;
 
@@ -44,36 +44,8 @@ export async function getPayaraMicroVersions(): Promise<string[]>{
     }
 
     try {
-        // Build full URL
-        const urlString = DEFAULT_REPOSITORY_URL + METADATA_URL;
-
-        // Open connection and check response
-        const response = await fetch(urlString, {method: 'GET'});
-        if (!response.ok) {
-            throw new Error('HTTP error! Status: ${response.status}');
-        }
-        const xmlResponse = await response.text();
-
-        // Parse the XML response using parseStringPromise
-        const xmlDoc = await parseStringPromise(xmlResponse);
-        const latest = xmlDoc.metadata.versioning[0].latest[0] || '';
-
-        // Extract Versions
-        const versionNodes = xmlDoc.metadata.versioning[0].versions[0].version;
-        const fetchedVersions: string[] = [];
-
-        for (let i = versionNodes.length - 1; i >= 0; i--) {
-            const version = versionNodes[i] || '';
-            if ((version.includes("Alpha") || version.includes("Beta") || version.includes("SNAPSHOT")) && version !== latest) {
-                continue;
-            }
-            fetchedVersions.push(version);
-        }
-
-        versions = fetchedVersions;
-
+        versions = await new MavenRepository().getVersions(PAYARA_MICRO_GROUP_ID, PAYARA_MICRO_ARTIFACT_ID);
         return versions;
-    
     } catch (e) {
         console.error("Error fetching Payara Micro versions:",e);
         throw e;
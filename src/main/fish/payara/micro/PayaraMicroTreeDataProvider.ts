@@ -21,6 +21,10 @@ import * as vscode from "vscode";
 import * as _ from "lodash";
 import { TreeItem } from "vscode";
 import { PayaraMicroInstanceProvider } from "./PayaraMicroInstanceProvider";
+import { PayaraMicroInstance } from "./PayaraMicroInstance";
+import { OpenApiNode } from "../project/openapi/OpenApiNode";
+import { OpenApiTag } from "../project/openapi/OpenApiTag";
+import { OpenApiOperation } from "../project/openapi/OpenApiOperation";
 
 export class PayaraMicroTreeDataProvider implements vscode.TreeDataProvider<TreeItem> {
 
@@ -43,6 +47,12 @@ export class PayaraMicroTreeDataProvider implements vscode.TreeDataProvider<Tree
         let instances: Array<TreeItem> = new Array<TreeItem>();
         if (!item) {
             instances = this.instanceProvider.getMicroInstances();
+        } else if (item instanceof PayaraMicroInstance && item.isStarted() && item.getHomePage()) {
+            instances = [new OpenApiNode(item.getName(), new URL(item.getHomePage().trim()).origin, 'payara.micro.refresh')];
+        } else if (item instanceof OpenApiNode) {
+            instances = await item.fetchChildren();
+        } else if (item instanceof OpenApiTag || item instanceof OpenApiOperation) {
+            instances = item.getChildren();
         }
         return instances;
     }
@@ -0,0 +1,315 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as fs from "fs";
+import * as vscode from "vscode";
+import { ApplicationInstance } from "./ApplicationInstance";
+import { PayaraLocalServerInstance } from "../server/PayaraLocalServerInstance";
+import { AsadminClient, DeploymentDescriptor, SubComponent } from "../server/endpoints/AsadminClient";
+import { AsadminError } from "../server/endpoints/AsadminError";
+import { ServerUtils } from "../server/tooling/utils/ServerUtils";
+import { StringUtils } from "../server/tooling/utils/StringUtils";
+
+const INSTANCE_ROOT_URI = '${com.sun.aas.instanceRootURI}';
+
+/**
+ * Webview showing the modules, status per target, context root, location and
+ * deployment descriptors of a deployed application.
+ */
+export class ApplicationDetailsPanel {
+
+    private static panels: Map<string, ApplicationDetailsPanel> = new Map<string, ApplicationDetailsPanel>();
+
+    private descriptors: DeploymentDescriptor[] = [];
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private application: ApplicationInstance) {
+        let key = ApplicationDetailsPanel.getKey(application);
+        panel.onDidDispose(() => ApplicationDetailsPanel.panels.delete(key));
+        panel.webview.onDidReceiveMessage(message => this.onMessage(message));
+    }
+
+    public static show(application: ApplicationInstance): void {
+        let key = ApplicationDetailsPanel.getKey(application);
+        let details = ApplicationDetailsPanel.panels.get(key);
+        if (details) {
+            details.application = application;
+            details.panel.reveal();
+        } else {
+            let panel = vscode.window.createWebviewPanel(
+                'payaraApplicationDetails',
+                application.name,
+                vscode.ViewColumn.Active,
+                { enableScripts: true }
+            );
+            details = new ApplicationDetailsPanel(panel, application);
+            ApplicationDetailsPanel.panels.set(key, details);
+        }
+        details.refresh();
+    }
+
+    public async refresh(): Promise<void> {
+        this.panel.title = `${this.application.name} - ${this.application.payaraServer.getName()}`;
+        this.panel.webview.html = this.render(undefined);
+        let details = await this.load();
+        this.descriptors = details.descriptors;
+        this.panel.webview.html = this.render(details);
+    }
+
+    private async onMessage(message: any): Promise<void> {
+        if (message.command === 'refresh') {
+            this.refresh();
+        } else if (message.command === 'open') {
+            vscode.commands.executeCommand('payara.server.app.home', this.application);
+        } else if (message.command === 'descriptor') {
+            let descriptor = this.descriptors[message.index];
+            if (descriptor) {
+                let document = await vscode.workspace.openTextDocument({
+                    language: descriptor.path.endsWith('.xml') ? 'xml' : 'plaintext',
+                    content: descriptor.content
+                });
+                vscode.window.showTextDocument(document, vscode.ViewColumn.Beside);
+            }
+        }
+    }
+
+    private async load(): Promise<ApplicationDetails> {
+        let payaraServer = this.application.payaraServer;
+        let client: AsadminClient = new AsadminClient(payaraServer);
+        let details: ApplicationDetails = {
+            engines: [],
+            statuses: [],
+            modules: [],
+            properties: new Map<string, string>(),
+            descriptors: [],
+            errors: []
+        };
+        let fail = (section: string, error: any) => details.errors.push(`${section}: ${AsadminError.getMessage(error)}`);
+
+        try {
+            let contextRoot = await this.application.fetchContextPath();
+            details.contextRoot = contextRoot !== null ? contextRoot : undefined;
+        } catch (error) {
+            fail('Context root', error);
+        }
+
+        let prefix = 'applications.application.' + this.application.name.replace(/\./g, '\\.') + '.';
+        try {
+            let values = await client.getDottedValues(prefix + '*');
+            let engines = new Set<string>();
+            values.forEach((value, name) => {
+                let attribute = name.substring(prefix.length);
+                if (attribute === 'location') {
+                    details.location = this.resolveLocation(value);
+                } else if (attribute === 'directory-deployed') {
+                    details.directoryDeployed = value === 'true';
+                } else if (attribute.startsWith('property.')) {
+                    details.properties.set(attribute.substring('property.'.length), value);
+                } else if (/^module\.[^.]+\.engine\.[^.]+\.sniffer$/.test(attribute)) {
+                    engines.add(value);
+                }
+            });
+            details.engines = Array.from(engines);
+        } catch (error) {
+            fail('Configuration', error);
+        }
+        details.deployTime = this.getDeployTime(details);
+
+        let targets: string[] = [ServerUtils.DAS_NAME];
+        try {
+            targets = await client.listTargets();
+        } catch (error) {
+            fail('Targets', error);
+        }
+        for (let target of targets) {
+            try {
+                details.statuses.push({ target: target, status: await client.getComponentStatus(this.application.name, target) });
+            } catch (error) {
+                // the application is not deployed on the target
+            }
+        }
+
+        try {
+            let components = await client.listSubComponents(this.application.name);
+            let modules = components.filter(component => /Module$/.test(component.type));
+            if (modules.length > 0) {
+                for (let module of modules) {
+                    details.modules.push({
+                        ...module,
+                        components: await client.listSubComponents(this.application.name, module.name)
+                    });
+                }
+            } else {
+                details.modules.push({
+                    name: this.application.name,
+                    type: this.application.appType ? this.application.appType : 'Module',
+                    components: components
+                });
+            }
+        } catch (error) {
+            fail('Sub-components', error);
+        }
+
+        try {
+            details.descriptors = await client.getDeploymentDescriptors(this.application.name);
+        } catch (error) {
+            fail('Deployment descriptors', error);
+        }
+        return details;
+    }
+
+    /**
+     * Replaces the instance root variable of the location with the domain
+     * directory of a local server.
+     */
+    private resolveLocation(location: string): string {
+        let payaraServer = this.application.payaraServer;
+        if (payaraServer instanceof PayaraLocalServerInstance && location.startsWith(INSTANCE_ROOT_URI)) {
+            let relativePath = location.substring(INSTANCE_ROOT_URI.length).replace(/^\/+/, '');
+            return vscode.Uri.joinPath(vscode.Uri.file(payaraServer.getDomainPath()), relativePath).fsPath;
+        }
+        return location.startsWith('file:') ? vscode.Uri.parse(location).fsPath : location;
+    }
+
+    /**
+     * @returns the deploy time recorded in the application properties, or
+     *          the modification time of the local deployment directory.
+     */
+    private getDeployTime(details: ApplicationDetails): string | undefined {
+        let deployTime: string | undefined;
+        details.properties.forEach((value, name) => {
+            if (!deployTime && /time/i.test(name)) {
+                deployTime = /^\d+$/.test(value) ? new Date(parseInt(value, 10)).toLocaleString() : value;
+            }
+        });
+        if (!deployTime && details.location && this.application.payaraServer instanceof PayaraLocalServerInstance) {
+            try {
+                deployTime = fs.statSync(details.location).mtime.toLocaleString();
+            } catch (error) {
+                console.log(`Unable to read the deployment directory ${details.location}: ${AsadminError.getMessage(error)}`);
+            }
+        }
+        return deployTime;
+    }
+
+    private render(details: ApplicationDetails | undefined): string {
+        let nonce = Math.random().toString(36).substring(2);
+        let body: string;
+        if (!details) {
+            body = '<p>Loading...</p>';
+        } else {
+            body = this.renderDetails(details);
+        }
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    table { border-collapse: collapse; margin-bottom: 1em; }
+    th, td { text-align: left; padding: 2px 12px 2px 0; vertical-align: top; }
+    th { color: var(--vscode-descriptionForeground); font-weight: normal; }
+    .error { color: var(--vscode-errorForeground); }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; margin-right: 6px; cursor: pointer; }
+    a { color: var(--vscode-textLink-foreground); cursor: pointer; }
+</style>
+</head>
+<body>
+<h2>${StringUtils.escapeHtml(this.application.name)}</h2>
+<p>
+    <button data-command="refresh">Refresh</button>
+    <button data-command="open">Open in Browser</button>
+</p>
+${body}
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('[data-command]').forEach(element => element.addEventListener('click', () => {
+        vscode.postMessage({ command: element.dataset.command, index: Number(element.dataset.index) });
+    }));
+</script>
+</body>
+</html>`;
+    }
+
+    private renderDetails(details: ApplicationDetails): string {
+        let html = '';
+        let row = (name: string, value: string | undefined) => `<tr><th>${StringUtils.escapeHtml(name)}</th><td>${StringUtils.escapeHtml(value !== undefined ? value : '-')}</td></tr>`;
+        html += '<h3>General</h3><table>';
+        html += row('Server', this.application.payaraServer.getName());
+        html += row('Context root', details.contextRoot);
+        html += row('Engines', details.engines.length > 0 ? details.engines.join(', ') : undefined);
+        html += row('Location', details.location);
+        html += row('Directory deployed', details.directoryDeployed !== undefined ? String(details.directoryDeployed) : undefined);
+        html += row('Deployed', details.deployTime);
+        html += '</table>';
+
+        html += '<h3>Status</h3><table><tr><th>Target</th><th>Status</th></tr>';
+        for (let status of details.statuses) {
+            html += `<tr><td>${StringUtils.escapeHtml(status.target)}</td><td>${StringUtils.escapeHtml(status.status)}</td></tr>`;
+        }
+        html += '</table>';
+
+        html += '<h3>Modules</h3>';
+        for (let module of details.modules) {
+            html += `<h4>${StringUtils.escapeHtml(module.name)} <small>${StringUtils.escapeHtml(module.type)}</small></h4><table>`;
+            for (let component of module.components) {
+                html += `<tr><td>${StringUtils.escapeHtml(component.name)}</td><td>${StringUtils.escapeHtml(component.type)}</td></tr>`;
+            }
+            html += '</table>';
+        }
+
+        if (details.properties.size > 0) {
+            html += '<h3>Properties</h3><table>';
+            details.properties.forEach((value, name) => html += row(name, value));
+            html += '</table>';
+        }
+
+        html += '<h3>Deployment Descriptors</h3><table>';
+        details.descriptors.forEach((descriptor, index) => {
+            html += `<tr><td>${StringUtils.escapeHtml(descriptor.module)}</td><td><a data-command="descriptor" data-index="${index}">${StringUtils.escapeHtml(descriptor.path)}</a></td></tr>`;
+        });
+        html += '</table>';
+
+        for (let error of details.errors) {
+            html += `<p class="error">${StringUtils.escapeHtml(error)}</p>`;
+        }
+        return html;
+    }
+
+    private static getKey(application: ApplicationInstance): string {
+        return `${application.payaraServer.getName()}/${application.name}`;
+    }
+
+}
+
+interface ApplicationDetails {
+    contextRoot?: string;
+    engines: string[];
+    location?: string;
+    directoryDeployed?: boolean;
+    deployTime?: string;
+    statuses: Array<{ target: string, status: string }>;
+    modules: Array<SubComponent & { components: SubComponent[] }>;
+    properties: Map<string, string>;
+    descriptors: DeploymentDescriptor[];
+    /** Failures of the sections which could not be loaded. */
+    errors: string[];
+}
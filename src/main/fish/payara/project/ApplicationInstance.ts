@@ -19,7 +19,8 @@
 
 import * as vscode from "vscode";
 import { PayaraServerInstance } from '../server/PayaraServerInstance';
-import { RestEndpoints } from "../server/endpoints/RestEndpoints";
+import { AsadminClient } from "../server/endpoints/AsadminClient";
+import { AsadminError } from "../server/endpoints/AsadminError";
 import { ProjectOutputWindowProvider } from "./ProjectOutputWindowProvider";
 import { RestEndpoint } from "./RestEndpoint";
 
@@ -58,52 +59,30 @@ export class ApplicationInstance extends vscode.TreeItem {
         return this.contextPath;
     }
 
-    public fetchContextPath(callback: (contextPath: string) => any) {
-        let application = this;
-        let payaraServer = this.payaraServer;
-        let query = '?appname=' + encodeURIComponent(this.name) + '&modulename=' + encodeURIComponent(this.name);
-        let endpoints: RestEndpoints = new RestEndpoints(payaraServer);
-        endpoints.invoke("_get-context-root" + query, async (response, report) => {
-            if (response.statusCode === 200) {
-                let message = report['message-part'][0];
-                if (message.property) {
-                    let property = message.property[0].$;
-                    if (property.name === 'contextRoot') {
-                        let contextRoot = <string>property.value;
-                        application.setContextPath(contextRoot);
-                        if (contextRoot) {
-                            callback(contextRoot);
-                        } else {
-                            vscode.window.showInformationMessage('Context path not found for the application: ' + application.name);
-                        }
-                    }
-                }
-            }
-        });
+    public async fetchContextPath(): Promise<string | null> {
+        let client: AsadminClient = new AsadminClient(this.payaraServer);
+        let contextRoot = await client.getContextRoot(this.name, this.name);
+        this.setContextPath(contextRoot);
+        return contextRoot;
     }
 
-    public fetchRestEndpoints() {
-        let application = this;
-        let payaraServer = this.payaraServer;
-        let query = '?appname=' + encodeURIComponent(this.name);
-        let endpoints: RestEndpoints = new RestEndpoints(payaraServer);
-        endpoints.invoke("list-rest-endpoints" + query, async (response, report) => {
-            if (response.statusCode === 200) {
-                let message = report['message-part'][0];
-                if (message) {
-                    application.restEndpoints.splice(0, application.restEndpoints.length); // clear
-                    for(let endpoint of message.$.message.split('\n')) {
-                        let endpointInfo = endpoint.split('\t');
-                        application.restEndpoints.push(
-                            new RestEndpoint(application, endpointInfo[0], endpointInfo[1])
-                        );
-                    }
+    public async fetchRestEndpoints(): Promise<void> {
+        let client: AsadminClient = new AsadminClient(this.payaraServer);
+        try {
+            let report = await client.invoke('list-rest-endpoints', { appname: this.name });
+            let message = report.getMessage();
+            this.restEndpoints.splice(0, this.restEndpoints.length); // clear
+            if (message) {
+                for (let endpoint of message.split('\n')) {
+                    let endpointInfo = endpoint.split('\t');
+                    this.restEndpoints.push(
+                        new RestEndpoint(this, endpointInfo[0], endpointInfo[1])
+                    );
                 }
             }
-        },
-        (res, message) => {
-            console.log(message);
-        });
+        } catch (error) {
+            console.log(AsadminError.getMessage(error));
+        }
     }
 
     public getRestEndpoints(): Array<RestEndpoint> {
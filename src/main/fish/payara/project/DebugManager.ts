@@ -17,23 +17,24 @@
  * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
  */
 
-import * as fs from "fs";
 import { WorkspaceFolder, DebugConfiguration, workspace, WorkspaceConfiguration, Uri } from "vscode";
 import { ServerUtils } from "../server/tooling/utils/ServerUtils";
 
 export class DebugManager {
 
+    /**
+     * @returns the java attach configuration of the launch.json with the name
+     * of the default configuration, the default configuration otherwise. The
+     * launch.json is not modified.
+     */
     public getPayaraConfig(workspaceFolder: WorkspaceFolder, defaultConfiguration: DebugConfiguration): DebugConfiguration {
         let configuration: DebugConfiguration | undefined = undefined;
         for (const config of this.getConfigurations(workspaceFolder.uri)) {
-            if (config.name && config.name === defaultConfiguration.name) {
+            if (config.name && config.name === defaultConfiguration.name && config.type === defaultConfiguration.type) {
                 configuration = config;
             }
         }
-        if(!configuration) {
-            configuration = this.createConfiguration(workspaceFolder, defaultConfiguration);
-        }
-        return configuration;
+        return configuration ? configuration : defaultConfiguration;
     }
 
     public getConfigurations(target: Uri): DebugConfiguration[] {
@@ -42,32 +43,6 @@ export class DebugManager {
         return configurations ? configurations : [];
     }
 
-    private createConfiguration(workspaceFolder: WorkspaceFolder, defaultConfig: DebugConfiguration): DebugConfiguration {
-        let vscodeDir = this.getVSCodeDir(workspaceFolder);
-        let launchFile = vscodeDir + '/launch.json';
-        let configurations: DebugConfiguration[] = [];
-        let launch = workspace.getConfiguration('launch', workspaceFolder.uri);
-        if (!fs.existsSync(launchFile)) {
-            launch.update('version', "0.2.0");
-        } else {
-            let config = launch.get<DebugConfiguration[]>('configurations');
-            if (config) {
-                configurations = config;
-            }
-        }
-        configurations.push(defaultConfig);
-        launch.update('configurations', configurations, false);
-        return defaultConfig;
-    }
-
-    private getVSCodeDir(workspaceFolder: WorkspaceFolder) {
-        let vscodeDir = workspaceFolder.uri.fsPath + '/.vscode';
-        if (!fs.existsSync(vscodeDir)) {
-            fs.mkdirSync(vscodeDir);
-        }
-        return vscodeDir;
-    }
-
     public getDefaultMicroConfig(): DebugConfiguration {
         return {
             type: "java",
@@ -84,7 +59,21 @@ export class DebugManager {
             request: "attach",
             hostName: ServerUtils.DEFAULT_HOST,
             name: "payara-server",
-            port: 9009
+            port: ServerUtils.DEFAULT_DEBUG_PORT
+        };
+    }
+
+    /**
+     * @returns the attach configuration of a remote server, not saved in the
+     * launch.json as the debug port is read from the server.
+     */
+    public getRemoteServerConfig(serverName: string, host: string, port: number): DebugConfiguration {
+        return {
+            type: "java",
+            request: "attach",
+            hostName: host,
+            name: `payara-server (${serverName})`,
+            port: port
         };
     }
 
@@ -0,0 +1,312 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { PayaraServerInstance } from "../server/PayaraServerInstance";
+import { PayaraLocalServerInstance } from "../server/PayaraLocalServerInstance";
+import { LogFileReader } from "../server/log/LogFileReader";
+import { LogParser } from "../server/log/LogParser";
+import { StackTraceResolver } from "./StackTraceResolver";
+
+const BUILD_FILES: string[] = ['pom.xml', 'build.gradle', 'build.gradle.kts'];
+
+/**
+ * Number of the last SEVERE records of the server.log read with the
+ * failure message.
+ */
+const LOG_RECORDS: number = 20;
+
+/**
+ * Failures of a deployment which are mapped to the workspace, the injection
+ * point or class is captured by the pattern.
+ */
+const RULES: DiagnosticRule[] = [
+    {
+        // WELD-001408: Unsatisfied dependencies for type Foo with qualifiers @Default
+        //   at injection point [BackedAnnotatedField] @Inject private com.example.Bar.foo
+        //   at com.example.Bar.foo(Bar.java:0)
+        pattern: /(WELD-\d+):?\s*((?:Unsatisfied|Ambiguous) dependencies for type [^\n]*?with qualifiers [^\n]*?)\s+at injection point[\s\S]*?\bat ([\w.$]+)\.([\w$<>]+)\(/g,
+        map: match => ({ code: match[1], message: match[2], className: match[3], member: match[4] })
+    },
+    {
+        // other invalid injection points, e.g WELD-001410 or WELD-001437
+        pattern: /(WELD-\d+):?\s*([^\n]*?injection point[^\n]*?)\s+at ([\w.$]+)\.([\w$<>]+)\(/g,
+        map: match => ({ code: match[1], message: match[2], className: match[3], member: match[4] })
+    },
+    {
+        // WELD-000071 Managed bean with a public field must be @Dependent: [class com.example.Foo]
+        pattern: /(WELD-\d+):?\s*([^\n\[]*?)\s*:?\s*\[?class ([\w.$]+)\]?/g,
+        map: match => ({ code: match[1], message: match[2], className: match[3] })
+    },
+    {
+        pattern: /(ClassNotFoundException|NoClassDefFoundError):\s*([\w.$\/]+)/g,
+        map: match => ({
+            code: match[1],
+            message: `Class ${match[2].replace(/\//g, '.')} not found`,
+            missingClass: match[2].replace(/\//g, '.')
+        })
+    },
+    {
+        // Exception [EclipseLink-7161] ... Entity class [class com.example.Foo] has no primary key specified
+        pattern: /Exception \[(EclipseLink-\d+)\][^\n]*?\n?[^\n]*?Exception Description:\s*([^\n]*?\[class ([\w.$]+)\][^\n]*)/g,
+        map: match => ({ code: match[1], message: match[2], className: match[3] })
+    },
+    {
+        pattern: /Exception \[(EclipseLink-\d+)\][^\n]*?(?:\n[^\n]*?)?Exception Description:\s*([^\n]*)/g,
+        map: match => {
+            let unit = /PersistenceUnit \[([\w.-]+)\]/.exec(match[2]);
+            return { code: match[1], message: match[2], descriptor: 'META-INF/persistence.xml', member: unit ? unit[1] : undefined };
+        }
+    },
+    {
+        pattern: /([^\n]*?(?:persistence unit|PersistenceUnit)[^\n]*?(?:\[|named |unitName=|: )"?([\w.-]+)"?[^\n]*)/gi,
+        map: match => ({ code: 'JPA', message: match[1].trim(), descriptor: 'META-INF/persistence.xml', member: match[2] })
+    },
+    {
+        // Deployment descriptor file WEB-INF/web.xml in archive [app]. Line 12 Column 5 -- ...
+        pattern: /((?:WEB-INF|META-INF)\/[\w.-]+\.xml)[^\n]*?(?:--|:)\s*([^\n]*)/g,
+        map: match => {
+            let line = /Line\s+(\d+)/.exec(match[0]);
+            return { code: 'DD', message: match[2] || match[0], descriptor: match[1], line: line ? parseInt(line[1], 10) : undefined };
+        }
+    }
+];
+
+/**
+ * Reports the failures of the deployments of the workspace folders in the
+ * Problems view, mapped to the class or deployment descriptor at fault when
+ * the failure is recognized. The diagnostics of a folder are cleared by its
+ * next successful deployment.
+ */
+export class DeploymentDiagnostics {
+
+    private static instance: DeploymentDiagnostics;
+
+    private collection: vscode.DiagnosticCollection;
+
+    /**
+     * Files holding diagnostics, for each deployed folder or artifact.
+     */
+    private files: Map<string, vscode.Uri[]> = new Map<string, vscode.Uri[]>();
+
+    private constructor() {
+        this.collection = vscode.languages.createDiagnosticCollection('payara');
+    }
+
+    public static getInstance(): DeploymentDiagnostics {
+        if (!DeploymentDiagnostics.instance) {
+            DeploymentDiagnostics.instance = new DeploymentDiagnostics();
+        }
+        return DeploymentDiagnostics.instance;
+    }
+
+    /**
+     * @param key         workspace folder or artifact deployed.
+     * @param message     failure message of the deployment.
+     * @param since       time in milliseconds the deployment started at,
+     *                    earlier log records are ignored.
+     * @returns the number of diagnostics reported.
+     */
+    public async report(
+        key: vscode.WorkspaceFolder | string,
+        payaraServer: PayaraServerInstance,
+        message: string,
+        since: number): Promise<number> {
+        this.clear(key);
+        let workspaceFolder = typeof key === 'string' ? undefined : key;
+        let text = message + '\n' + await this.readLogRecords(payaraServer, since);
+        let failures = this.parse(text);
+        let diagnostics = new Map<string, { uri: vscode.Uri, diagnostics: vscode.Diagnostic[] }>();
+        let add = (uri: vscode.Uri, diagnostic: vscode.Diagnostic) => {
+            let entry = diagnostics.get(uri.toString()) || { uri: uri, diagnostics: [] };
+            if (!entry.diagnostics.some(existing => existing.message === diagnostic.message && existing.range.isEqual(diagnostic.range))) {
+                entry.diagnostics.push(diagnostic);
+            }
+            diagnostics.set(uri.toString(), entry);
+        };
+
+        for (let failure of failures) {
+            let location = await this.locate(failure, workspaceFolder);
+            if (location) {
+                add(location.uri, this.createDiagnostic(location.range, failure.message, failure.code));
+            }
+        }
+        if (diagnostics.size === 0 && workspaceFolder) {
+            // unrecognized failure, reported on the build file of the folder
+            let folderPath = workspaceFolder.uri.fsPath;
+            let buildFile = BUILD_FILES
+                .map(file => path.join(folderPath, file))
+                .find(file => fs.existsSync(file));
+            if (buildFile) {
+                let firstLine = message.split('\n')[0].trim();
+                add(vscode.Uri.file(buildFile), this.createDiagnostic(new vscode.Range(0, 0, 0, 0), firstLine));
+            }
+        }
+
+        let files: vscode.Uri[] = [];
+        diagnostics.forEach(entry => {
+            this.collection.set(entry.uri, entry.diagnostics);
+            files.push(entry.uri);
+        });
+        this.files.set(this.getKey(key), files);
+        return files.reduce((count, uri) => count + (this.collection.get(uri) || []).length, 0);
+    }
+
+    public clear(key: vscode.WorkspaceFolder | string): void {
+        let files = this.files.get(this.getKey(key));
+        if (files) {
+            files.forEach(uri => this.collection.delete(uri));
+            this.files.delete(this.getKey(key));
+        }
+    }
+
+    private parse(text: string): Failure[] {
+        let failures: Failure[] = [];
+        // the first rule matching a part of the text wins
+        let matched: Array<[number, number]> = [];
+        for (let rule of RULES) {
+            let pattern = new RegExp(rule.pattern.source, rule.pattern.flags);
+            let match: RegExpExecArray | null;
+            while ((match = pattern.exec(text)) !== null) {
+                let start = match.index;
+                let end = match.index + match[0].length;
+                if (match[0].length === 0) {
+                    pattern.lastIndex++;
+                    continue;
+                }
+                if (matched.some(([from, to]) => start < to && end > from)) {
+                    continue;
+                }
+                matched.push([start, end]);
+                failures.push(rule.map(match));
+            }
+        }
+        return failures;
+    }
+
+    private async locate(failure: Failure, workspaceFolder?: vscode.WorkspaceFolder): Promise<vscode.Location | undefined> {
+        let uri: vscode.Uri | undefined;
+        if (failure.className) {
+            let outerClass = failure.className.split('$')[0];
+            let simpleName = outerClass.substring(outerClass.lastIndexOf('.') + 1);
+            uri = await StackTraceResolver.getInstance().resolve(outerClass, simpleName + '.java');
+        } else if (failure.missingClass) {
+            uri = await this.findReference(failure.missingClass, workspaceFolder);
+        } else if (failure.descriptor) {
+            let files = await vscode.workspace.findFiles(
+                workspaceFolder
+                    ? new vscode.RelativePattern(workspaceFolder, '**/' + failure.descriptor)
+                    : '**/' + failure.descriptor,
+                '**/{target,build,node_modules}/**', 1);
+            uri = files.length > 0 ? files[0] : undefined;
+        }
+        if (!uri) {
+            return undefined;
+        }
+        let document = await vscode.workspace.openTextDocument(uri);
+        let line = 0;
+        if (failure.line !== undefined) {
+            line = Math.min(Math.max(0, failure.line - 1), document.lineCount - 1);
+        } else {
+            let token = failure.member || (failure.className ? failure.className.substring(failure.className.lastIndexOf('.') + 1).split('$').pop() : undefined)
+                || (failure.missingClass ? failure.missingClass : undefined);
+            if (token) {
+                let match = new RegExp('\\b' + token.replace(/[.$]/g, '\\$&') + '\\b').exec(document.getText());
+                if (match) {
+                    line = document.positionAt(match.index).line;
+                }
+            }
+        }
+        return new vscode.Location(uri, document.lineAt(line).range);
+    }
+
+    /**
+     * @returns a source of the folder importing the missing class.
+     */
+    private async findReference(className: string, workspaceFolder?: vscode.WorkspaceFolder): Promise<vscode.Uri | undefined> {
+        let include = '**/*.java';
+        let sources = await vscode.workspace.findFiles(
+            workspaceFolder ? new vscode.RelativePattern(workspaceFolder, include) : include,
+            '**/{target,build,node_modules}/**');
+        for (let source of sources) {
+            let text = fs.readFileSync(source.fsPath, 'utf8');
+            if (text.indexOf(className) > -1) {
+                return source;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * @returns the last SEVERE records of the server.log of a local domain,
+     * logged since the given time.
+     */
+    private async readLogRecords(payaraServer: PayaraServerInstance, since: number): Promise<string> {
+        if (!(payaraServer instanceof PayaraLocalServerInstance)) {
+            return '';
+        }
+        try {
+            let records = new LogParser().push(await new LogFileReader(payaraServer.getServerLog()).read(), true);
+            return records
+                .filter(record => record.level === 'SEVERE' && record.time !== undefined && record.time >= since)
+                .slice(-LOG_RECORDS)
+                .map(record => record.message + '\n' + record.details)
+                .join('\n');
+        } catch (error) {
+            console.error(error);
+            return '';
+        }
+    }
+
+    private createDiagnostic(range: vscode.Range, message: string, code?: string): vscode.Diagnostic {
+        let diagnostic = new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = 'Payara';
+        if (code) {
+            diagnostic.code = code;
+        }
+        return diagnostic;
+    }
+
+    private getKey(key: vscode.WorkspaceFolder | string): string {
+        return typeof key === 'string' ? key : key.uri.toString();
+    }
+
+}
+
+interface DiagnosticRule {
+    pattern: RegExp;
+    map: (match: RegExpExecArray) => Failure;
+}
+
+interface Failure {
+    code: string;
+    message: string;
+    /** Class at fault, e.g declaring the injection point. */
+    className?: string;
+    /** Field, method or unit name of the failure. */
+    member?: string;
+    /** Class not found, looked up in the references of the workspace. */
+    missingClass?: string;
+    /** Deployment descriptor path in the archive e.g WEB-INF/web.xml. */
+    descriptor?: string;
+    /** Line of the failure in the descriptor. */
+    line?: number;
+}
@@ -0,0 +1,85 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import { Memento } from "vscode";
+import { DeploymentProfile } from "./DeploymentProfile";
+
+/**
+ * Remembers the last deployment of each application, i.e the workspace
+ * folder, the artifact and the options it was deployed with, so that it can
+ * be redeployed from the server tree after a restart of VS Code.
+ */
+export class DeploymentHistory {
+
+    private static KEY: string = 'payara.server.deployments';
+
+    constructor(private memento: Memento) {
+    }
+
+    public get(serverName: string, appName: string): DeploymentRecord | undefined {
+        return this.getRecords()[DeploymentHistory.getKey(serverName, appName)];
+    }
+
+    public async record(deployment: DeploymentRecord): Promise<void> {
+        let records = this.getRecords();
+        records[DeploymentHistory.getKey(deployment.serverName, deployment.appName)] = deployment;
+        await this.memento.update(DeploymentHistory.KEY, records);
+    }
+
+    public async remove(serverName: string, appName: string): Promise<void> {
+        let records = this.getRecords();
+        delete records[DeploymentHistory.getKey(serverName, appName)];
+        await this.memento.update(DeploymentHistory.KEY, records);
+    }
+
+    public async renameServer(oldServerName: string, newServerName: string): Promise<void> {
+        let records = this.getRecords();
+        for (let key of Object.keys(records)) {
+            let deployment = records[key];
+            if (deployment.serverName === oldServerName) {
+                delete records[key];
+                records[DeploymentHistory.getKey(newServerName, deployment.appName)] = { ...deployment, serverName: newServerName };
+            }
+        }
+        await this.memento.update(DeploymentHistory.KEY, records);
+    }
+
+    private getRecords(): { [key: string]: DeploymentRecord } {
+        return { ...this.memento.get<{ [key: string]: DeploymentRecord }>(DeploymentHistory.KEY, {}) };
+    }
+
+    private static getKey(serverName: string, appName: string): string {
+        return `${serverName}/${appName}`;
+    }
+
+}
+
+export interface DeploymentRecord {
+    serverName: string;
+    appName: string;
+    /** URI of the workspace folder the artifact belongs to. */
+    workspaceFolder?: string;
+    /** Local path of the archive or exploded directory. */
+    artifactPath: string;
+    /** Path sent to the server, e.g the path inside a docker container. */
+    deployPath: string;
+    upload: boolean;
+    target: string;
+    profile: DeploymentProfile;
+}
@@ -0,0 +1,84 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import { ConfigurationTarget, workspace, WorkspaceFolder } from "vscode";
+
+/**
+ * Deployment options of a workspace folder, kept in the payara.deployment
+ * setting of the folder and applied to each deployment of its artifact.
+ */
+export interface DeploymentProfile {
+    /** Overrides the context root, the artifact name by default. */
+    contextRoot?: string;
+    /** Comma separated virtual servers e.g server,__asadmin */
+    virtualServers?: string;
+    precompileJsp?: boolean;
+    /** Library jars, absolute or relative to the domain lib/applibs directory. */
+    libraries?: string[];
+    keepState?: boolean;
+    availabilityEnabled?: boolean;
+    /** Free-form deployment properties e.g java-web-start-enabled=false */
+    properties?: { [name: string]: string };
+}
+
+export class DeploymentProfileManager {
+
+    private static SECTION: string = 'payara';
+
+    private static KEY: string = 'deployment';
+
+    public getProfile(workspaceFolder: WorkspaceFolder): DeploymentProfile {
+        let profile = workspace
+            .getConfiguration(DeploymentProfileManager.SECTION, workspaceFolder.uri)
+            .get<DeploymentProfile>(DeploymentProfileManager.KEY);
+        return profile ? { ...profile } : {};
+    }
+
+    /**
+     * Writes the profile to the folder settings, unset options are removed.
+     */
+    public async saveProfile(workspaceFolder: WorkspaceFolder, profile: DeploymentProfile): Promise<void> {
+        let value: any = {};
+        for (let key of Object.keys(profile)) {
+            let option = (<any>profile)[key];
+            if (!DeploymentProfileManager.isEmpty(option)) {
+                value[key] = option;
+            }
+        }
+        await workspace
+            .getConfiguration(DeploymentProfileManager.SECTION, workspaceFolder.uri)
+            .update(
+                DeploymentProfileManager.KEY,
+                Object.keys(value).length > 0 ? value : undefined,
+                ConfigurationTarget.WorkspaceFolder
+            );
+    }
+
+    private static isEmpty(option: any): boolean {
+        if (option === undefined || option === null || option === '') {
+            return true;
+        } else if (Array.isArray(option)) {
+            return option.length === 0;
+        } else if (typeof option === 'object') {
+            return Object.keys(option).length === 0;
+        }
+        return false;
+    }
+
+}
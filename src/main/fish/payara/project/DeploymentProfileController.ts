@@ -0,0 +1,174 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { QuickPickItem, Uri, WorkspaceFolder } from "vscode";
+import { DeploymentProfile, DeploymentProfileManager } from "./DeploymentProfile";
+
+/**
+ * Edits the deployment profile of a workspace folder, the options are
+ * listed with their current value and saved on each change.
+ */
+export class DeploymentProfileController {
+
+    private manager: DeploymentProfileManager = new DeploymentProfileManager();
+
+    public async editProfile(uri?: Uri): Promise<void> {
+        let workspaceFolder = uri ? vscode.workspace.getWorkspaceFolder(uri) : await this.selectWorkspaceFolder();
+        if (!workspaceFolder) {
+            vscode.window.showErrorMessage('Please select a workspace folder.');
+            return;
+        }
+        let profile = this.manager.getProfile(workspaceFolder);
+        let items: ProfileItem[] = [
+            this.toItem('contextRoot', 'Context root', profile.contextRoot, 'artifact name'),
+            this.toItem('virtualServers', 'Virtual servers', profile.virtualServers, 'all virtual servers'),
+            this.toItem('precompileJsp', 'Precompile JSP', profile.precompileJsp),
+            this.toItem('libraries', 'Libraries', profile.libraries ? profile.libraries.join(', ') : undefined, 'none'),
+            this.toItem('keepState', 'Keep state', profile.keepState),
+            this.toItem('availabilityEnabled', 'Availability enabled', profile.availabilityEnabled),
+            this.toItem('properties', 'Properties', profile.properties && Object.keys(profile.properties).length > 0
+                ? Object.keys(profile.properties).map(name => `${name}=${profile.properties![name]}`).join(', ')
+                : undefined, 'none')
+        ];
+        let pick = await vscode.window.showQuickPick(items, {
+            placeHolder: `Deployment profile of ${workspaceFolder.name}, select an option to change it`
+        });
+        if (!pick) {
+            return;
+        }
+        let changed: boolean;
+        switch (pick.option) {
+            case 'precompileJsp':
+            case 'keepState':
+            case 'availabilityEnabled':
+                profile[pick.option] = profile[pick.option] ? undefined : true;
+                changed = true;
+                break;
+            case 'libraries':
+                changed = await this.editLibraries(profile);
+                break;
+            case 'properties':
+                changed = await this.editProperties(profile);
+                break;
+            default:
+                changed = await this.editText(profile, pick.option, pick.label);
+        }
+        if (!changed) {
+            return;
+        }
+        try {
+            await this.manager.saveProfile(workspaceFolder, profile);
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to save the deployment profile. ' + ((error instanceof Error) ? error.message : error));
+            return;
+        }
+        this.editProfile(workspaceFolder.uri);
+    }
+
+    private async editText(profile: DeploymentProfile, option: 'contextRoot' | 'virtualServers', label: string): Promise<boolean> {
+        let value = await vscode.window.showInputBox({
+            prompt: option === 'contextRoot'
+                ? 'Enter the context root e.g /store, leave empty to use the artifact name'
+                : 'Enter the comma separated virtual servers e.g server, leave empty for all',
+            value: profile[option] || '',
+            validateInput: value => /\s/.test(value.trim()) ? `${label} must not contain whitespace.` : undefined
+        });
+        if (value === undefined || value.trim() === (profile[option] || '')) {
+            return false;
+        }
+        profile[option] = value.trim() ? value.trim() : undefined;
+        return true;
+    }
+
+    private async editLibraries(profile: DeploymentProfile): Promise<boolean> {
+        let value = await vscode.window.showInputBox({
+            prompt: 'Enter the comma separated library jars, absolute or relative to the domain lib/applibs directory',
+            value: profile.libraries ? profile.libraries.join(',') : ''
+        });
+        if (value === undefined) {
+            return false;
+        }
+        profile.libraries = value.split(',').map(library => library.trim()).filter(library => library.length > 0);
+        return true;
+    }
+
+    private async editProperties(profile: DeploymentProfile): Promise<boolean> {
+        let properties = { ...profile.properties };
+        let addProperty: PropertyItem = { label: '$(add) Add property...' };
+        let items: PropertyItem[] = Object.keys(properties).map(name => ({
+            label: name,
+            description: properties[name],
+            name: name
+        }));
+        let pick = await vscode.window.showQuickPick([addProperty, ...items], {
+            placeHolder: 'Deployment properties, select a property to edit or remove it'
+        });
+        if (!pick) {
+            return false;
+        }
+        let value = await vscode.window.showInputBox({
+            prompt: 'Enter the property as name=value, leave empty to remove it',
+            value: pick.name ? `${pick.name}=${properties[pick.name]}` : '',
+            validateInput: value => value.trim() && value.indexOf('=') < 1 ? 'Property must be given as name=value.' : undefined
+        });
+        if (value === undefined || (!value.trim() && !pick.name)) {
+            return false;
+        }
+        if (pick.name) {
+            delete properties[pick.name];
+        }
+        if (value.trim()) {
+            let separator = value.indexOf('=');
+            properties[value.substring(0, separator).trim()] = value.substring(separator + 1).trim();
+        }
+        profile.properties = properties;
+        return true;
+    }
+
+    private async selectWorkspaceFolder(): Promise<WorkspaceFolder | undefined> {
+        let folders = vscode.workspace.workspaceFolders;
+        if (!folders || folders.length === 0) {
+            return undefined;
+        } else if (folders.length === 1) {
+            return folders[0];
+        }
+        return vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder' });
+    }
+
+    private toItem(option: keyof DeploymentProfile, label: string, value: string | boolean | undefined, defaultValue?: string): ProfileItem {
+        let description: string;
+        if (typeof value === 'boolean' || defaultValue === undefined) {
+            description = value ? 'on' : 'off';
+        } else {
+            description = value ? value : `(${defaultValue})`;
+        }
+        return { label: label, description: description, option: option };
+    }
+
+}
+
+interface ProfileItem extends QuickPickItem {
+    option: keyof DeploymentProfile;
+}
+
+interface PropertyItem extends QuickPickItem {
+    /** Name of the edited property, unset to add one. */
+    name?: string;
+}
@@ -22,12 +22,16 @@ import * as path from 'path';
 import { Uri, DebugConfiguration } from "vscode";
 import { PayaraServerInstance } from "../server/PayaraServerInstance";
 import { BuildSupport } from "./BuildSupport";
-import { RestEndpoints } from "../server/endpoints/RestEndpoints";
+import { AsadminClient } from "../server/endpoints/AsadminClient";
+import { AsadminError } from "../server/endpoints/AsadminError";
 import { ApplicationInstance } from "./ApplicationInstance";
 import { PayaraServerInstanceController } from "../server/PayaraServerInstanceController";
 import { DebugManager } from "./DebugManager";
-import { PayaraLocalServerInstance } from '../server/PayaraLocalServerInstance';
+import { DeploymentHistory } from "./DeploymentHistory";
+import { DeploymentDiagnostics } from "./DeploymentDiagnostics";
+import { DeploymentProfile, DeploymentProfileManager } from "./DeploymentProfile";
 import { PayaraRemoteServerInstance } from '../server/PayaraRemoteServerInstance';
+import { RemoteDebugController } from '../server/RemoteDebugController';
 import { ProjectOutputWindowProvider } from './ProjectOutputWindowProvider';
 import { ServerUtils } from '../server/tooling/utils/ServerUtils';
 import { DeployOption } from '../common/DeployOption';
@@ -65,92 +69,116 @@ export class DeploymentSupport {
             );
     }
 
-    public deployApplication(
+    public async deployApplication(
         appPath: string, payaraServer: PayaraServerInstance,
         debug: boolean, autoDeploy?: boolean,
-        metadataChanged?: boolean, sourcesChanged?: Uri[]) {
-        let support = this;
+        metadataChanged?: boolean, sourcesChanged?: Uri[]): Promise<void> {
         if (autoDeploy !== true) {
             payaraServer.getOutputChannel().show(false);
         }
-        let endpoints: RestEndpoints = new RestEndpoints(payaraServer);
+        let client: AsadminClient = new AsadminClient(payaraServer);
+        let artifactPath = appPath;
+        let workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(appPath));
+        let profile: DeploymentProfile = workspaceFolder ? new DeploymentProfileManager().getProfile(workspaceFolder) : {};
 
-        let query: string = '?force=true';
         let parsedPath = path.parse(appPath);
         let name = parsedPath.base;
         if (parsedPath.ext === '.war' || parsedPath.ext === '.jar') {
             name = parsedPath.name;
         }
-        var uploadFile;
-        if (payaraServer instanceof PayaraLocalServerInstance) {
-            query = `${query}&DEFAULT=${encodeURIComponent(appPath)}&name=${name}`;
-        } else {
+        let upload = false;
+        if (payaraServer instanceof PayaraRemoteServerInstance) {
             let remote = payaraServer as PayaraRemoteServerInstance;
             if (remote.getInstanceType() == "docker"
                 && remote.getHostPath()
                 && remote.getContainerPath()) {
                 appPath = path.join(remote.getContainerPath(), path.relative(remote.getHostPath(), appPath)).replace(/\\/g, "/");
-                query = `${query}&DEFAULT=${encodeURIComponent(appPath)}&name=${name}`;
             } else if (remote.getInstanceType() == "wsl") {
                 // Replace backslashes with forward slashes
                 appPath = appPath.replace(/\\/g, "/");
                 // Add "mnt" prefix and drive letter
                 appPath = "/mnt/" + appPath.charAt(0).toLowerCase() + appPath.slice(2);
-                query = `${query}&DEFAULT=${encodeURIComponent(appPath)}&name=${name}`;
             } else {
-                query = `${query}&upload=true&name=${name}`;
-                uploadFile = appPath;
-            }
-        }
-        if (payaraServer.getDeployOption() === DeployOption.HOT_RELOAD) {
-            query = `${query}&hotDeploy=true`;
-            if (metadataChanged) {
-                query = `${query}&metadataChanged=true`;
-            }
-            if (Array.isArray(sourcesChanged) && sourcesChanged.length > 0) {
-                query = `${query}&sourcesChanged=${sourcesChanged.join(',')}`;
+                upload = true;
             }
         }
-        endpoints.invoke("deploy" + query, async (response, report) => {
-            if (response.statusCode === 200) {
-                let message = report['message-part'][0];
-                if (message && message.property) {
-                    let property = message.property[0].$;
-                    if (property.name === 'name') {
-                        let appName = <string>property.value;
-                        let workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(appPath));
+        let hotDeploy = payaraServer.getDeployOption() === DeployOption.HOT_RELOAD;
 
-                        if (debug && workspaceFolder) {
-                            let debugConfig: DebugConfiguration | undefined;
-                            let debugManager: DebugManager = new DebugManager();
-                            debugConfig = debugManager.getPayaraConfig(workspaceFolder, debugManager.getDefaultServerConfig());
-                            if (vscode.debug.activeDebugSession) {
-                                let session = vscode.debug.activeDebugSession;
-                                if (session.configuration.port !== debugConfig.port
-                                    || session.configuration.type !== debugConfig.type) {
-                                    vscode.debug.startDebugging(workspaceFolder, debugConfig);
-                                }
-                            } else {
-                                vscode.debug.startDebugging(workspaceFolder, debugConfig);
-                            }
-                        }
-                        if (autoDeploy !== true) {
-                            support.controller.openApp(new ApplicationInstance(payaraServer, appName));
-                            payaraServer.reloadApplications();
-                            support.controller.refreshServerList();
-                        }
-                        ProjectOutputWindowProvider.getInstance().updateStatusBar(`${workspaceFolder?.name} successfully deployed`);
-                        await new Promise(res => setTimeout(res, ServerUtils.DEFAULT_WAIT));
-                        ProjectOutputWindowProvider.getInstance().hideStatusBar();
+        let diagnostics = DeploymentDiagnostics.getInstance();
+        let appName: string;
+        let deployStart = Date.now();
+        try {
+            let result = await client.deploy({
+                ...profile,
+                path: appPath,
+                name: name,
+                upload: upload,
+                hotDeploy: hotDeploy,
+                metadataChanged: hotDeploy && metadataChanged,
+                sourcesChanged: hotDeploy && Array.isArray(sourcesChanged) ? sourcesChanged.map(uri => uri.toString()) : undefined,
+                target: payaraServer.getDeployTarget()
+            });
+            appName = result.name;
+        } catch (error) {
+            let message = AsadminError.getMessage(error);
+            let count = await diagnostics.report(workspaceFolder || artifactPath, payaraServer, message, deployStart)
+                .catch(diagnosticsError => {
+                    console.error(diagnosticsError);
+                    return 0;
+                });
+            let action = count > 0 ? ['Show Problems'] : [];
+            vscode.window.showErrorMessage('Application deployment failed: ' + message, ...action)
+                .then(selected => {
+                    if (selected) {
+                        vscode.commands.executeCommand('workbench.actions.view.problems');
                     }
+                });
+            return;
+        }
+        diagnostics.clear(workspaceFolder || artifactPath);
+        new DeploymentHistory(this.controller.context.globalState).record({
+            serverName: payaraServer.getName(),
+            appName: appName,
+            workspaceFolder: workspaceFolder ? workspaceFolder.uri.toString() : undefined,
+            artifactPath: artifactPath,
+            deployPath: appPath,
+            upload: upload,
+            target: payaraServer.getDeployTarget(),
+            profile: profile
+        }).catch(error => console.error(error));
+
+        if (debug && workspaceFolder) {
+            let debugConfig: DebugConfiguration | undefined;
+            let debugManager: DebugManager = new DebugManager();
+            if (payaraServer instanceof PayaraRemoteServerInstance) {
+                debugConfig = await new RemoteDebugController(this.controller).getDebugConfiguration(payaraServer);
+            } else {
+                debugConfig = debugManager.getPayaraConfig(workspaceFolder, debugManager.getDefaultServerConfig());
+            }
+            if (!debugConfig) {
+                vscode.window.showErrorMessage(`Unable to attach the debugger, the debug port of ${payaraServer.getName()} is unknown.`);
+            } else if (vscode.debug.activeDebugSession) {
+                let session = vscode.debug.activeDebugSession;
+                if (session.configuration.port !== debugConfig.port
+                    || session.configuration.hostName !== debugConfig.hostName
+                    || session.configuration.type !== debugConfig.type) {
+                    vscode.debug.startDebugging(workspaceFolder, debugConfig);
                 }
+            } else {
+                vscode.debug.startDebugging(workspaceFolder, debugConfig);
             }
-        },
-            (res, message) => {
-                vscode.window.showErrorMessage('Application deployment failed: ' + message);
-            },
-            'application/xml',
-            uploadFile);
+        }
+        if (autoDeploy !== true) {
+            if (payaraServer.getDeployTarget() === ServerUtils.DAS_NAME) {
+                // applications deployed to the instances are not served by the DAS
+                this.controller.openApp(new ApplicationInstance(payaraServer, appName));
+            }
+            payaraServer.reloadApplications();
+            this.controller.refreshServerList();
+        }
+        ProjectOutputWindowProvider.getInstance().updateStatusBar(`${workspaceFolder?.name} successfully deployed`);
+        await new Promise(res => setTimeout(res, ServerUtils.DEFAULT_WAIT));
+        ProjectOutputWindowProvider.getInstance().hideStatusBar();
     }
 
 }
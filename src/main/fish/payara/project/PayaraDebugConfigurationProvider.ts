@@ -0,0 +1,177 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { CancellationToken, DebugConfiguration, DebugConfigurationProvider, WorkspaceFolder } from "vscode";
+import { DeployOption } from "../common/DeployOption";
+import { PayaraMicroInstance } from "../micro/PayaraMicroInstance";
+import { PayaraMicroInstanceController } from "../micro/PayaraMicroInstanceController";
+import { PayaraMicroInstanceProvider } from "../micro/PayaraMicroInstanceProvider";
+import { PayaraInstanceProvider } from "../server/PayaraInstanceProvider";
+import { PayaraLocalServerInstance } from "../server/PayaraLocalServerInstance";
+import { PayaraServerInstance } from "../server/PayaraServerInstance";
+import { PayaraServerInstanceController } from "../server/PayaraServerInstanceController";
+import { ServerUtils } from "../server/tooling/utils/ServerUtils";
+import { DebugManager } from "./DebugManager";
+
+export const PAYARA_DEBUG_TYPE: string = 'payara';
+
+/**
+ * Resolves the payara launch configurations: the application of the
+ * workspace folder is built and deployed to a Payara Server started or
+ * restarted in debug mode, or run with Payara Micro in debug mode, then the
+ * Java debugger is attached. The payara session itself is not started.
+ */
+export class PayaraDebugConfigurationProvider implements DebugConfigurationProvider {
+
+    constructor(
+        private serverProvider: PayaraInstanceProvider,
+        private serverController: PayaraServerInstanceController,
+        private microProvider: PayaraMicroInstanceProvider,
+        private microController: PayaraMicroInstanceController) {
+    }
+
+    public provideDebugConfigurations(folder: WorkspaceFolder | undefined, token?: CancellationToken): DebugConfiguration[] {
+        return [{
+            type: PAYARA_DEBUG_TYPE,
+            request: 'launch',
+            name: 'Payara Server: deploy and debug',
+            target: 'server'
+        }];
+    }
+
+    public async resolveDebugConfiguration(folder: WorkspaceFolder | undefined,
+        config: DebugConfiguration, token?: CancellationToken): Promise<DebugConfiguration | undefined> {
+
+        if (!config.type && !config.request && !config.name) {
+            // no launch.json
+            config = this.provideDebugConfigurations(folder)[0];
+        }
+        if (!folder) {
+            let editor = vscode.window.activeTextEditor;
+            folder = editor ? vscode.workspace.getWorkspaceFolder(editor.document.uri) : undefined;
+        }
+        if (!folder) {
+            vscode.window.showErrorMessage('Please open the application folder to debug it on Payara.');
+            return undefined;
+        }
+        if (config.deployOption !== undefined && !DeployOption.ALL_OPTIONS.has(config.deployOption)) {
+            vscode.window.showErrorMessage(`Invalid deployOption ${config.deployOption} in the launch configuration ${config.name}.`);
+            return undefined;
+        }
+        if (config.target === 'micro') {
+            await this.debugMicro(folder, config);
+        } else {
+            this.debugServer(folder, config);
+        }
+        // aborts the payara session, the Java debugger is attached once deployed
+        return undefined;
+    }
+
+    private debugServer(folder: WorkspaceFolder, config: DebugConfiguration): void {
+        if (!config.server) {
+            this.serverController.selectListedServer(payaraServer => this.deployServer(folder, config, payaraServer));
+            return;
+        }
+        let payaraServer = this.serverProvider.getServerByName(config.server);
+        if (!payaraServer) {
+            vscode.window.showErrorMessage(`Payara Server ${config.server} of the launch configuration ${config.name} is not registered.`);
+            return;
+        }
+        this.deployServer(folder, config, payaraServer);
+    }
+
+    private async deployServer(folder: WorkspaceFolder, config: DebugConfiguration, payaraServer: PayaraServerInstance): Promise<void> {
+        if (config.profile) {
+            if (!(payaraServer instanceof PayaraLocalServerInstance)
+                || !payaraServer.getLaunchProfiles().some(profile => profile.name === config.profile)) {
+                vscode.window.showErrorMessage(`Launch profile ${config.profile} of the launch configuration ${config.name} is not defined for ${payaraServer.getName()}.`);
+                return;
+            }
+            payaraServer.setLaunchProfileName(config.profile);
+            if (!await this.applyLaunchProfile(payaraServer)) {
+                vscode.window.showErrorMessage(`Launch profile ${config.profile} cannot be applied to ${payaraServer.getName()} while it is running.`);
+                return;
+            }
+        }
+        if (config.deployOption) {
+            payaraServer.setDeployOption(config.deployOption);
+        }
+        if (config.profile || config.deployOption) {
+            this.serverController.updateConfig();
+            this.serverController.refreshServerList();
+        }
+        this.serverController.deployApp(folder.uri, true, false, payaraServer);
+    }
+
+    /**
+     * Launch profiles only apply to a process started by StartTask, hence a
+     * server running with another profile or not in debug mode is stopped
+     * and then started in debug mode by deployApp.
+     *
+     * @returns false if the server could not be stopped.
+     */
+    private async applyLaunchProfile(payaraServer: PayaraLocalServerInstance): Promise<boolean> {
+        if (payaraServer.isStopped()
+            || (payaraServer.isStarted() && payaraServer.isDebug()
+                && payaraServer.getRunningLaunchProfileName() === payaraServer.getLaunchProfileName())) {
+            return true;
+        }
+        if (!payaraServer.isStarted()) {
+            // starting or restarting
+            return false;
+        }
+        payaraServer.getOutputChannel().appendLine(`Stopping ${payaraServer.getName()} to start it with the launch profile ${payaraServer.getLaunchProfileName()}.`);
+        await this.serverController.stopServer(payaraServer);
+        return payaraServer.isStopped();
+    }
+
+    private async debugMicro(folder: WorkspaceFolder, config: DebugConfiguration): Promise<void> {
+        let payaraMicro = this.microProvider.getMicroInstances()
+            .find(instance => instance.getPath().fsPath === folder.uri.fsPath);
+        if (!payaraMicro) {
+            vscode.window.showErrorMessage(`${folder.name} is not a Payara Micro application.`);
+            return;
+        }
+        if (config.deployOption) {
+            payaraMicro.setDeployOption(config.deployOption);
+        }
+        if (payaraMicro.isStarted() && payaraMicro.isDebug()) {
+            let debugManager: DebugManager = new DebugManager();
+            vscode.debug.startDebugging(folder, debugManager.getPayaraConfig(folder, debugManager.getDefaultMicroConfig()));
+            return;
+        }
+        if (!payaraMicro.isStopped()) {
+            this.microController.stopMicro(payaraMicro);
+            if (!await this.waitUntilStopped(payaraMicro)) {
+                vscode.window.showErrorMessage(`Unable to restart ${payaraMicro.getName()} in debug mode, the instance did not stop.`);
+                return;
+            }
+        }
+        this.microController.startMicro(payaraMicro, true);
+    }
+
+    private async waitUntilStopped(payaraMicro: PayaraMicroInstance): Promise<boolean> {
+        for (let retry = 0; retry < ServerUtils.DEFAULT_RETRY_COUNT && !payaraMicro.isStopped(); retry++) {
+            await new Promise(res => setTimeout(res, 1000));
+        }
+        return payaraMicro.isStopped();
+    }
+
+}
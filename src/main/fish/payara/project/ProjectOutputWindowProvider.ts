@@ -3,7 +3,9 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { WorkspaceFolder, OutputChannel, StatusBarItem } from 'vscode';
+import { WorkspaceFolder, OutputChannel, StatusBarItem, Uri } from 'vscode';
+
+export const OUTPUT_SCHEME: string = 'output';
 
 /*
  * Copyright (c) 2020-2021 Payara Foundation and/or its affiliates and others.
@@ -60,4 +62,20 @@ export class ProjectOutputWindowProvider {
         return instance;
     }
 
+    /**
+     * @returns true if the document of the uri is one of the output channels
+     *          of the extension.
+     */
+    public isOutputChannel(uri: Uri): boolean {
+        if (uri.scheme !== OUTPUT_SCHEME) {
+            return false;
+        }
+        for (let windowName of this.outputWindows.keys()) {
+            if (uri.path.endsWith(windowName)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as http from 'http';
+import { IncomingMessage, OutgoingHttpHeaders } from 'http';
+import * as vscode from "vscode";
+import { PayaraServerInstance } from '../server/PayaraServerInstance';
+import { ServerUtils } from '../server/tooling/utils/ServerUtils';
+
+/**
+ * Sends the requests of the REST endpoint tester to the HTTP listener of a
+ * Payara Server.
+ */
+export class RestClient {
+
+    private static PATH_PARAMETER: RegExp = /\{\s*([\w.-]+)\s*(?::[^}]*)?\}/g;
+
+    constructor(private payaraServer: PayaraServerInstance) {
+    }
+
+    /**
+     * @returns the names of the path parameters of the endpoint e.g
+     *          <code>/api/users/{id}</code>.
+     */
+    public static getPathParameters(path: string): string[] {
+        let names: string[] = [];
+        let match: RegExpExecArray | null;
+        RestClient.PATH_PARAMETER.lastIndex = 0;
+        while ((match = RestClient.PATH_PARAMETER.exec(path)) !== null) {
+            if (names.indexOf(match[1]) < 0) {
+                names.push(match[1]);
+            }
+        }
+        return names;
+    }
+
+    public getUrl(request: RestRequest): string {
+        let path = request.path.replace(RestClient.PATH_PARAMETER, (parameter: string, name: string) => {
+            let value = request.pathParameters[name];
+            return value !== undefined && value !== '' ? encodeURIComponent(value) : parameter;
+        });
+        let query = RestClient.parseLines(request.query, '=')
+            .map(([name, value]) => encodeURIComponent(name) + '=' + encodeURIComponent(value));
+        if (query.length > 0) {
+            path += (path.indexOf('?') < 0 ? '?' : '&') + query.join('&');
+        }
+        return `http://${this.payaraServer.getHost()}:${this.payaraServer.getHttpPort()}${path}`;
+    }
+
+    public send(request: RestRequest, token?: vscode.CancellationToken): Promise<RestResponse> {
+        return new Promise<RestResponse>((resolve, reject) => {
+            let url = new URL(this.getUrl(request));
+            let headers: OutgoingHttpHeaders = {};
+            for (let [name, value] of RestClient.parseLines(request.headers, ':')) {
+                headers[name] = value;
+            }
+            if (request.auth.type === 'basic') {
+                headers['Authorization'] = 'Basic '
+                    + Buffer.from(request.auth.username + ':' + (request.auth.password || '')).toString('base64');
+            } else if (request.auth.type === 'bearer') {
+                headers['Authorization'] = 'Bearer ' + (request.auth.token || '');
+            }
+            let body: Buffer | undefined;
+            if (request.body && ['GET', 'HEAD'].indexOf(request.method) < 0) {
+                body = Buffer.from(request.body, 'utf8');
+                if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+                    headers['Content-Type'] = RestClient.isJson(request.body) ? 'application/json' : 'text/plain';
+                }
+                headers['Content-Length'] = body.length;
+            }
+
+            let start = Date.now();
+            let client = http.request({
+                method: request.method,
+                hostname: url.hostname,
+                port: url.port,
+                path: url.pathname + url.search,
+                headers: headers
+            }, (response: IncomingMessage) => {
+                let chunks: Buffer[] = [];
+                response.on('data', (chunk: Buffer) => chunks.push(chunk));
+                response.on('error', reject);
+                response.on('end', () => resolve({
+                    url: url.toString(),
+                    statusCode: response.statusCode || 0,
+                    statusMessage: response.statusMessage || '',
+                    headers: response.rawHeaders,
+                    body: Buffer.concat(chunks).toString('utf8'),
+                    contentType: String(response.headers['content-type'] || ''),
+                    time: Date.now() - start
+                }));
+            });
+            client.on('error', reject);
+            client.setTimeout(ServerUtils.DEFAULT_REQUEST_TIMEOUT, () => client.destroy(
+                new Error(`Request timed out after ${ServerUtils.DEFAULT_REQUEST_TIMEOUT} ms.`)
+            ));
+            if (token) {
+                let cancellation = token.onCancellationRequested(() => client.destroy(new Error('Request cancelled.')));
+                client.on('close', () => cancellation.dispose());
+            }
+            client.end(body);
+        });
+    }
+
+    /**
+     * @returns the body indented if it is JSON, otherwise the body as is.
+     */
+    public static formatBody(response: RestResponse): string {
+        if (/json/i.test(response.contentType) || RestClient.isJson(response.body)) {
+            try {
+                return JSON.stringify(JSON.parse(response.body), null, 2);
+            } catch (error) {
+                // malformed JSON is shown as is
+            }
+        }
+        return response.body;
+    }
+
+    private static isJson(value: string): boolean {
+        let text = value.trim();
+        if (!text.startsWith('{') && !text.startsWith('[')) {
+            return false;
+        }
+        try {
+            JSON.parse(text);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Splits the <code>name=value</code> or <code>name: value</code> lines,
+     * blank lines and lines starting with # are skipped.
+     */
+    private static parseLines(text: string, separator: string): Array<[string, string]> {
+        let entries: Array<[string, string]> = [];
+        for (let line of (text || '').split(/\r?\n/)) {
+            line = line.trim();
+            if (line.length === 0 || line.startsWith('#')) {
+                continue;
+            }
+            let index = line.indexOf(separator);
+            if (index < 0) {
+                entries.push([line, '']);
+            } else {
+                entries.push([line.substring(0, index).trim(), line.substring(index + 1).trim()]);
+            }
+        }
+        return entries;
+    }
+
+}
+
+export interface RestRequest {
+    method: string;
+    /** Endpoint path, which may contain path parameters e.g {id}. */
+    path: string;
+    pathParameters: { [name: string]: string };
+    /** Query parameters, one name=value per line. */
+    query: string;
+    /** Headers, one name: value per line. */
+    headers: string;
+    auth: RestAuth;
+    body: string;
+}
+
+export interface RestAuth {
+    type: 'none' | 'basic' | 'bearer';
+    username?: string;
+    password?: string;
+    token?: string;
+}
+
+export interface RestResponse {
+    url: string;
+    statusCode: number;
+    statusMessage: string;
+    /** Raw header names and values, alternately. */
+    headers: string[];
+    body: string;
+    contentType: string;
+    /** Elapsed time in milliseconds. */
+    time: number;
+}
@@ -18,7 +18,6 @@
  */
 
 import * as vscode from "vscode";
-import { RestEndpoints } from '../server/endpoints/RestEndpoints';
 import { ApplicationInstance } from './ApplicationInstance';
 
 export class RestEndpoint extends vscode.TreeItem {
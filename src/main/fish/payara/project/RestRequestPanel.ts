@@ -0,0 +1,274 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { RestEndpoint } from "./RestEndpoint";
+import { RestClient, RestRequest, RestResponse } from "./RestClient";
+import { AsadminError } from "../server/endpoints/AsadminError";
+import { StringUtils } from "../server/tooling/utils/StringUtils";
+
+const HISTORY_KEY: string = 'payara.server.rest.history';
+const HISTORY_SIZE: number = 20;
+const METHODS: string[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+/**
+ * Webview to compose a request for a REST endpoint discovered on a deployed
+ * application, send it to the HTTP listener of the server and inspect the
+ * response. The requests sent are kept per endpoint in the workspace state,
+ * without the credentials.
+ */
+export class RestRequestPanel {
+
+    private static panels: Map<string, RestRequestPanel> = new Map<string, RestRequestPanel>();
+
+    private request: RestRequest;
+
+    private response: RestResponse | undefined;
+
+    private error: string | undefined;
+
+    private sending: boolean = false;
+
+    private constructor(
+        private context: vscode.ExtensionContext,
+        private panel: vscode.WebviewPanel,
+        private restEndpoint: RestEndpoint) {
+        let history = this.getHistory();
+        this.request = history.length > 0 ? history[0] : {
+            method: restEndpoint.httpMethod,
+            path: restEndpoint.endpoint,
+            pathParameters: {},
+            query: '',
+            headers: '',
+            auth: { type: 'none' },
+            body: ''
+        };
+        let key = RestRequestPanel.getKey(restEndpoint);
+        panel.onDidDispose(() => RestRequestPanel.panels.delete(key));
+        panel.webview.onDidReceiveMessage(message => this.onMessage(message));
+    }
+
+    public static show(context: vscode.ExtensionContext, restEndpoint: RestEndpoint): void {
+        let key = RestRequestPanel.getKey(restEndpoint);
+        let requestPanel = RestRequestPanel.panels.get(key);
+        if (requestPanel) {
+            requestPanel.panel.reveal();
+            return;
+        }
+        let panel = vscode.window.createWebviewPanel(
+            'payaraRestRequest',
+            `${restEndpoint.httpMethod} ${restEndpoint.endpoint}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        requestPanel = new RestRequestPanel(context, panel, restEndpoint);
+        RestRequestPanel.panels.set(key, requestPanel);
+        requestPanel.update();
+    }
+
+    private async onMessage(message: any): Promise<void> {
+        if (message.command === 'send') {
+            this.request = message.request;
+            await this.send();
+        } else if (message.command === 'history') {
+            let history = this.getHistory();
+            if (history[message.index]) {
+                this.request = history[message.index];
+                this.response = undefined;
+                this.error = undefined;
+                this.update();
+            }
+        } else if (message.command === 'clearHistory') {
+            await this.saveHistory([]);
+            this.update();
+        }
+    }
+
+    private async send(): Promise<void> {
+        let payaraServer = this.restEndpoint.application.payaraServer;
+        this.response = undefined;
+        this.error = undefined;
+        if (!payaraServer.isStarted()) {
+            this.error = 'Payara Server instance not running.';
+            this.update();
+            return;
+        }
+        this.sending = true;
+        this.update();
+        try {
+            this.response = await new RestClient(payaraServer).send(this.request);
+        } catch (error) {
+            this.error = 'Unable to send the request: ' + AsadminError.getMessage(error);
+        }
+        this.sending = false;
+        await this.addHistory(this.request);
+        this.update();
+    }
+
+    private getHistory(): RestRequest[] {
+        let history = this.context.workspaceState.get<{ [endpoint: string]: RestRequest[] }>(HISTORY_KEY, {});
+        return history[RestRequestPanel.getKey(this.restEndpoint)] || [];
+    }
+
+    private async saveHistory(requests: RestRequest[]): Promise<void> {
+        let history = { ...this.context.workspaceState.get<{ [endpoint: string]: RestRequest[] }>(HISTORY_KEY, {}) };
+        let key = RestRequestPanel.getKey(this.restEndpoint);
+        if (requests.length > 0) {
+            history[key] = requests;
+        } else {
+            delete history[key];
+        }
+        await this.context.workspaceState.update(HISTORY_KEY, history);
+    }
+
+    private async addHistory(request: RestRequest): Promise<void> {
+        // credentials are not persisted in the workspace
+        let entry: RestRequest = { ...request, auth: { type: request.auth.type, username: request.auth.username } };
+        let serialized = JSON.stringify(entry);
+        let requests = this.getHistory().filter(previous => JSON.stringify(previous) !== serialized);
+        requests.unshift(entry);
+        await this.saveHistory(requests.slice(0, HISTORY_SIZE));
+    }
+
+    private update(): void {
+        this.panel.webview.html = this.render();
+    }
+
+    private render(): string {
+        let nonce = Math.random().toString(36).substring(2);
+        let request = this.request;
+        let client = new RestClient(this.restEndpoint.application.payaraServer);
+        let methods = METHODS.concat(METHODS.indexOf(request.method) < 0 ? [request.method] : [])
+            .map(method => `<option${method === request.method ? ' selected' : ''}>${StringUtils.escapeHtml(method)}</option>`)
+            .join('');
+        let pathParameters = RestClient.getPathParameters(request.path).map(name =>
+            `<tr><th>${StringUtils.escapeHtml(name)}</th><td><input class="path-parameter" data-name="${StringUtils.escapeHtml(name)}" value="${StringUtils.escapeHtml(request.pathParameters[name] || '')}"></td></tr>`
+        ).join('');
+        let authTypes = [['none', 'No Auth'], ['basic', 'Basic'], ['bearer', 'Bearer Token']]
+            .map(([type, label]) => `<option value="${type}"${type === request.auth.type ? ' selected' : ''}>${label}</option>`)
+            .join('');
+        let history = this.getHistory().map((entry, index) =>
+            `<li><a data-index="${index}">${StringUtils.escapeHtml(entry.method)} ${StringUtils.escapeHtml(client.getUrl(entry))}</a></li>`
+        ).join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    input, select, textarea { color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 3px; }
+    textarea { width: 100%; box-sizing: border-box; font-family: var(--vscode-editor-font-family); }
+    table { border-collapse: collapse; margin-bottom: 1em; }
+    th, td { text-align: left; padding: 2px 12px 2px 0; vertical-align: top; }
+    th { color: var(--vscode-descriptionForeground); font-weight: normal; }
+    pre { background: var(--vscode-textCodeBlock-background); padding: 8px; overflow: auto; white-space: pre-wrap; }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    a { color: var(--vscode-textLink-foreground); cursor: pointer; }
+    .error { color: var(--vscode-errorForeground); }
+    .row { display: flex; gap: 6px; margin-bottom: 1em; }
+    .row input { flex: 1; }
+</style>
+</head>
+<body>
+<div class="row">
+    <select id="method">${methods}</select>
+    <input id="path" value="${StringUtils.escapeHtml(request.path)}">
+    <button id="send"${this.sending ? ' disabled' : ''}>${this.sending ? 'Sending...' : 'Send'}</button>
+</div>
+${pathParameters ? `<h3>Path Parameters</h3><table>${pathParameters}</table>` : ''}
+<h3>Query Parameters</h3>
+<textarea id="query" rows="3" placeholder="name=value">${StringUtils.escapeHtml(request.query)}</textarea>
+<h3>Headers</h3>
+<textarea id="headers" rows="3" placeholder="Accept: application/json">${StringUtils.escapeHtml(request.headers)}</textarea>
+<h3>Authorization</h3>
+<div class="row">
+    <select id="auth">${authTypes}</select>
+    <input id="username" placeholder="username" value="${StringUtils.escapeHtml(request.auth.username || '')}">
+    <input id="password" type="password" placeholder="password" value="${StringUtils.escapeHtml(request.auth.password || '')}">
+    <input id="token" type="password" placeholder="token" value="${StringUtils.escapeHtml(request.auth.token || '')}">
+</div>
+<h3>Body</h3>
+<textarea id="body" rows="8">${StringUtils.escapeHtml(request.body)}</textarea>
+${this.renderResponse()}
+<h3>History</h3>
+${history ? `<ol>${history}</ol><button id="clear">Clear History</button>` : '<p>No requests sent.</p>'}
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const value = id => document.getElementById(id).value;
+    const updateAuth = () => {
+        document.getElementById('username').style.display = value('auth') === 'basic' ? '' : 'none';
+        document.getElementById('password').style.display = value('auth') === 'basic' ? '' : 'none';
+        document.getElementById('token').style.display = value('auth') === 'bearer' ? '' : 'none';
+    };
+    document.getElementById('auth').addEventListener('change', updateAuth);
+    updateAuth();
+    document.getElementById('send').addEventListener('click', () => {
+        const pathParameters = {};
+        document.querySelectorAll('.path-parameter').forEach(input => pathParameters[input.dataset.name] = input.value);
+        vscode.postMessage({
+            command: 'send',
+            request: {
+                method: value('method'),
+                path: value('path'),
+                pathParameters: pathParameters,
+                query: value('query'),
+                headers: value('headers'),
+                auth: { type: value('auth'), username: value('username'), password: value('password'), token: value('token') },
+                body: value('body')
+            }
+        });
+    });
+    document.querySelectorAll('[data-index]').forEach(link => link.addEventListener('click',
+        () => vscode.postMessage({ command: 'history', index: Number(link.dataset.index) })));
+    const clear = document.getElementById('clear');
+    if (clear) {
+        clear.addEventListener('click', () => vscode.postMessage({ command: 'clearHistory' }));
+    }
+</script>
+</body>
+</html>`;
+    }
+
+    private renderResponse(): string {
+        if (this.error) {
+            return `<h3>Response</h3><p class="error">${StringUtils.escapeHtml(this.error)}</p>`;
+        }
+        let response = this.response;
+        if (!response) {
+            return '';
+        }
+        let headers = '';
+        for (let i = 0; i + 1 < response.headers.length; i += 2) {
+            headers += `<tr><th>${StringUtils.escapeHtml(response.headers[i])}</th><td>${StringUtils.escapeHtml(response.headers[i + 1])}</td></tr>`;
+        }
+        return `<h3>Response</h3>
+<p>${StringUtils.escapeHtml(response.url)}</p>
+<p><strong>${response.statusCode} ${StringUtils.escapeHtml(response.statusMessage)}</strong> &middot; ${response.time} ms</p>
+<table>${headers}</table>
+<pre>${StringUtils.escapeHtml(RestClient.formatBody(response))}</pre>`;
+    }
+
+    private static getKey(restEndpoint: RestEndpoint): string {
+        let application = restEndpoint.application;
+        return `${application.payaraServer.getName()}/${application.name} ${restEndpoint.httpMethod} ${restEndpoint.endpoint}`;
+    }
+
+}
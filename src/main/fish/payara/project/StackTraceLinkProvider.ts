@@ -0,0 +1,148 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { ProjectOutputWindowProvider } from "./ProjectOutputWindowProvider";
+import { StackTraceResolver } from "./StackTraceResolver";
+
+/**
+ * Links the frames of the stack traces printed in the server and Micro
+ * output channels to the workspace sources, the frames of the JDK and Payara
+ * internals are dimmed.
+ *
+ * The internal frames of an output channel are parsed once, the text
+ * appended to the channel afterwards is parsed from the start of its first
+ * line.
+ */
+export class StackTraceLinkProvider implements vscode.DocumentLinkProvider, vscode.Disposable {
+
+    private internalFrame: vscode.TextEditorDecorationType = vscode.window.createTextEditorDecorationType({
+        opacity: '0.5'
+    });
+
+    /**
+     * Internal frames of the output channels keyed by uri.
+     */
+    private internalFrames: Map<string, InternalFrames> = new Map<string, InternalFrames>();
+
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(
+            this.internalFrame,
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.decorate(editor))),
+            vscode.workspace.onDidChangeTextDocument(event => this.update(event)),
+            vscode.workspace.onDidCloseTextDocument(document => this.internalFrames.delete(document.uri.toString()))
+        );
+        vscode.window.visibleTextEditors.forEach(editor => this.decorate(editor));
+    }
+
+    public async provideDocumentLinks(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.DocumentLink[]> {
+        let links: vscode.DocumentLink[] = [];
+        if (!ProjectOutputWindowProvider.getInstance().isOutputChannel(document.uri)) {
+            return links;
+        }
+        let resolver = StackTraceResolver.getInstance();
+        for (let frame of StackTraceResolver.parseFrames(document.getText())) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            if (StackTraceResolver.isInternal(frame.className)) {
+                continue;
+            }
+            let source = await resolver.resolve(frame.className, frame.fileName);
+            if (source) {
+                let range = new vscode.Range(
+                    document.positionAt(frame.offset),
+                    document.positionAt(frame.offset + frame.length)
+                );
+                let link = new vscode.DocumentLink(range, source.with({ fragment: `L${frame.line}` }));
+                link.tooltip = `Open ${frame.className}`;
+                links.push(link);
+            }
+        }
+        return links;
+    }
+
+    private decorate(editor: vscode.TextEditor): void {
+        let document = editor.document;
+        if (!ProjectOutputWindowProvider.getInstance().isOutputChannel(document.uri)) {
+            return;
+        }
+        let frames = this.internalFrames.get(document.uri.toString());
+        if (!frames) {
+            frames = { length: 0, lines: [] };
+            this.parse(document, frames, 0);
+            this.internalFrames.set(document.uri.toString(), frames);
+        }
+        editor.setDecorations(this.internalFrame, frames.lines.map(line => document.lineAt(line).range));
+    }
+
+    private update(event: vscode.TextDocumentChangeEvent): void {
+        let document = event.document;
+        let frames = this.internalFrames.get(document.uri.toString());
+        if (!frames) {
+            // parsed once shown
+            return;
+        }
+        let length = frames.length;
+        if (event.contentChanges.every(change => change.rangeLength === 0 && change.rangeOffset >= length)) {
+            // appended, the last line may have been completed
+            let line = document.positionAt(length).line;
+            frames.lines = frames.lines.filter(frameLine => frameLine < line);
+            this.parse(document, frames, line);
+        } else {
+            // cleared or trimmed
+            frames.lines = [];
+            this.parse(document, frames, 0);
+        }
+        let lines = frames.lines;
+        vscode.window.visibleTextEditors
+            .filter(editor => editor.document === document)
+            .forEach(editor => editor.setDecorations(this.internalFrame, lines.map(line => document.lineAt(line).range)));
+    }
+
+    /**
+     * Adds the lines of the internal frames from the start of a line to the
+     * end of the document.
+     */
+    private parse(document: vscode.TextDocument, frames: InternalFrames, fromLine: number): void {
+        let start = new vscode.Position(fromLine, 0);
+        let end = document.lineAt(document.lineCount - 1).range.end;
+        let offset = document.offsetAt(start);
+        for (let frame of StackTraceResolver.parseFrames(document.getText(new vscode.Range(start, end)))) {
+            if (StackTraceResolver.isInternal(frame.className)) {
+                frames.lines.push(document.positionAt(offset + frame.offset).line);
+            }
+        }
+        frames.length = document.offsetAt(end);
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+}
+
+interface InternalFrames {
+    /** Length of the text parsed. */
+    length: number;
+    /** Lines of the internal frames. */
+    lines: number[];
+}
@@ -0,0 +1,130 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+
+/**
+ * Resolves the frames of the Java stack traces printed in the logs, e.g
+ * <code>at com.example.Foo.bar(Foo.java:42)</code>, to the sources of the
+ * workspace folders.
+ */
+export class StackTraceResolver {
+
+    /**
+     * Packages of the JDK, Payara Server and its modules, whose frames are
+     * not looked up in the workspace.
+     */
+    public static INTERNAL_PACKAGES: string[] = [
+        'java.', 'javax.', 'jakarta.', 'jdk.', 'sun.', 'com.sun.', 'org.glassfish.', 'fish.payara.',
+        'org.apache.catalina.', 'org.apache.coyote.', 'org.apache.jasper.', 'org.jboss.weld.',
+        'org.eclipse.persistence.', 'org.jvnet.hk2.', 'org.hibernate.validator.', 'com.hazelcast.'
+    ];
+
+    private static FRAME: RegExp = /\bat\s+(?:[\w.$@-]+\/+)?((?:[\w$]+\.)+[\w$<>]+)\(([\w$-]+\.(?:java|kt|groovy|scala)):(\d+)\)/g;
+
+    private static instance: StackTraceResolver;
+
+    /**
+     * Source of each class and file name, undefined if not in the workspace.
+     */
+    private sources: Map<string, Promise<vscode.Uri | undefined>> = new Map<string, Promise<vscode.Uri | undefined>>();
+
+    private constructor() {
+        let clear = () => this.sources.clear();
+        vscode.workspace.onDidCreateFiles(clear);
+        vscode.workspace.onDidDeleteFiles(clear);
+        vscode.workspace.onDidRenameFiles(clear);
+        vscode.workspace.onDidChangeWorkspaceFolders(clear);
+    }
+
+    public static getInstance(): StackTraceResolver {
+        if (!StackTraceResolver.instance) {
+            StackTraceResolver.instance = new StackTraceResolver();
+        }
+        return StackTraceResolver.instance;
+    }
+
+    /**
+     * @returns the frames of the text, with the offset of the
+     *          <code>File.java:42</code> part.
+     */
+    public static parseFrames(text: string): StackFrame[] {
+        let frames: StackFrame[] = [];
+        let match: RegExpExecArray | null;
+        let pattern = new RegExp(StackTraceResolver.FRAME.source, 'g');
+        while ((match = pattern.exec(text)) !== null) {
+            let method = match[1];
+            let location = match[2] + ':' + match[3];
+            frames.push({
+                className: method.substring(0, method.lastIndexOf('.')),
+                fileName: match[2],
+                line: parseInt(match[3], 10),
+                offset: match.index + match[0].length - location.length - 1,
+                length: location.length
+            });
+        }
+        return frames;
+    }
+
+    public static isInternal(className: string): boolean {
+        return StackTraceResolver.INTERNAL_PACKAGES.some(prefix => className.startsWith(prefix));
+    }
+
+    /**
+     * @returns the source file of the class, searched by its package path in
+     *          the workspace folders.
+     */
+    public resolve(className: string, fileName: string): Promise<vscode.Uri | undefined> {
+        let key = className + '/' + fileName;
+        let source = this.sources.get(key);
+        if (!source) {
+            let packageName = className.lastIndexOf('.') > 0 ? className.substring(0, className.lastIndexOf('.')) : '';
+            let packagePath = packageName.replace(/\./g, '/');
+            let pattern = '**/' + (packagePath ? packagePath + '/' : '') + fileName;
+            source = Promise.resolve(vscode.workspace.findFiles(pattern, '**/{target,build,node_modules}/**', 1))
+                .then(files => files.length > 0 ? files[0] : undefined);
+            this.sources.set(key, source);
+        }
+        return source;
+    }
+
+    /**
+     * Opens the source of the frame at its line.
+     */
+    public async open(className: string, fileName: string, line: number): Promise<void> {
+        let source = await this.resolve(className, fileName);
+        if (!source) {
+            vscode.window.showInformationMessage(`Source of ${className} not found in the workspace.`);
+            return;
+        }
+        let position = new vscode.Position(Math.max(0, line - 1), 0);
+        await vscode.window.showTextDocument(source, { selection: new vscode.Range(position, position) });
+    }
+
+}
+
+export interface StackFrame {
+    /** Class of the method, inner classes included e.g com.example.Foo$Bar. */
+    className: string;
+    fileName: string;
+    line: number;
+    /** Offset of File.java:42 in the text. */
+    offset: number;
+    length: number;
+}
@@ -0,0 +1,104 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import { HttpUtils } from '../../server/tooling/utils/HttpUtils';
+import { AsadminError } from '../../server/endpoints/AsadminError';
+
+const HEALTH_PATHS: string[] = ['/health', '/health/ready', '/health/live'];
+const METRIC_LINE: RegExp = /^([a-zA-Z_:][\w:]*)(\{[^}]*\})?\s+(\S+)/;
+
+/**
+ * Reads the MicroProfile Health and Metrics endpoints served on the HTTP
+ * listener of Payara Server and Payara Micro.
+ */
+export class MonitoringClient {
+
+    /**
+     * @param baseUrl scheme, host and port of the HTTP listener e.g
+     *                <code>http://localhost:8080</code>.
+     */
+    constructor(private baseUrl: string) {
+    }
+
+    public async fetchHealth(): Promise<HealthResult[]> {
+        let results: HealthResult[] = [];
+        for (let path of HEALTH_PATHS) {
+            try {
+                // an unhealthy server replies 503 with the checks in the body
+                let response = await this.get(path, 'application/json', [200, 503]);
+                let health = JSON.parse(response);
+                results.push({
+                    path: path,
+                    status: health.status || health.outcome || 'UNKNOWN',
+                    checks: (health.checks || []).map((check: any) => ({
+                        name: check.name,
+                        status: check.status || check.state || 'UNKNOWN',
+                        data: check.data
+                    }))
+                });
+            } catch (error) {
+                results.push({ path: path, status: 'UNAVAILABLE', checks: [], error: AsadminError.getMessage(error) });
+            }
+        }
+        return results;
+    }
+
+    /**
+     * @returns the metrics in the OpenMetrics text format, keyed by name
+     *          followed by the labels if any.
+     */
+    public async fetchMetrics(): Promise<{ [name: string]: number }> {
+        return MonitoringClient.parseMetrics(await this.get('/metrics', 'text/plain', [200]));
+    }
+
+    public static parseMetrics(text: string): { [name: string]: number } {
+        let metrics: { [name: string]: number } = {};
+        for (let line of text.split(/\r?\n/)) {
+            let match = METRIC_LINE.exec(line.trim());
+            if (!match || line.startsWith('#')) {
+                continue;
+            }
+            let value = Number(match[3]);
+            if (!isNaN(value)) {
+                metrics[match[1] + (match[2] || '')] = value;
+            }
+        }
+        return metrics;
+    }
+
+    private get(path: string, accept: string, statusCodes: number[]): Promise<string> {
+        return HttpUtils.get(this.baseUrl.replace(/\/+$/, '') + path, accept, statusCodes);
+    }
+
+}
+
+export interface HealthResult {
+    /** Health endpoint e.g /health/ready. */
+    path: string;
+    status: string;
+    checks: HealthCheck[];
+    /** Failure message when the endpoint cannot be read. */
+    error?: string;
+}
+
+export interface HealthCheck {
+    name: string;
+    status: string;
+    data?: { [key: string]: any };
+}
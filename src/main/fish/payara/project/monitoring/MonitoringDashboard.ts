@@ -0,0 +1,306 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { PayaraServerInstance } from "../../server/PayaraServerInstance";
+import { PayaraMicroInstance } from "../../micro/PayaraMicroInstance";
+import { AsadminError } from "../../server/endpoints/AsadminError";
+import { StringUtils } from "../../server/tooling/utils/StringUtils";
+import { MonitoringClient } from "./MonitoringClient";
+
+const INTERVALS: number[] = [1, 2, 5, 10, 30, 60];
+
+/**
+ * Webview polling the MicroProfile Health and Metrics endpoints of a running
+ * Payara Server or Payara Micro instance, the metrics selected are charted
+ * over the last samples.
+ */
+export class MonitoringDashboard {
+
+    /**
+     * Dashboards keyed by the owner type and name, a server and a Micro
+     * instance may have the same name.
+     */
+    private static panels: Map<string, MonitoringDashboard> = new Map<string, MonitoringDashboard>();
+
+    private timer: NodeJS.Timeout | undefined;
+
+    private polling: boolean = false;
+
+    private disposed: boolean = false;
+
+    private interval: number;
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private key: string,
+        private ownerName: string,
+        private client: MonitoringClient,
+        private isRunning: () => boolean) {
+        this.interval = Math.max(1, vscode.workspace.getConfiguration('payara').get<number>('dashboard.refreshInterval', 5));
+        panel.onDidDispose(() => {
+            this.disposed = true;
+            this.stop();
+            MonitoringDashboard.panels.delete(key);
+        });
+        panel.onDidChangeViewState(() => panel.visible ? this.start() : this.stop());
+        panel.webview.onDidReceiveMessage(message => {
+            if (message.command === 'interval') {
+                this.interval = message.interval;
+                this.start();
+            } else if (message.command === 'refresh') {
+                this.poll();
+            }
+        });
+        panel.webview.html = this.render();
+        this.start();
+    }
+
+    public static showServer(payaraServer: PayaraServerInstance): void {
+        MonitoringDashboard.show(
+            'server',
+            payaraServer.getName(),
+            `http://${payaraServer.getHost()}:${payaraServer.getHttpPort()}`,
+            () => payaraServer.isStarted()
+        );
+    }
+
+    public static showMicro(payaraMicro: PayaraMicroInstance): void {
+        let homePage = payaraMicro.getHomePage();
+        if (!homePage) {
+            vscode.window.showErrorMessage(`The URL of the Payara Micro instance ${payaraMicro.getName()} is unknown.`);
+            return;
+        }
+        MonitoringDashboard.show(
+            'micro',
+            payaraMicro.getName(),
+            new URL(homePage.trim()).origin,
+            () => payaraMicro.isStarted()
+        );
+    }
+
+    private static show(ownerType: string, ownerName: string, baseUrl: string, isRunning: () => boolean): void {
+        let key = `${ownerType}:${ownerName}`;
+        let dashboard = MonitoringDashboard.panels.get(key);
+        if (dashboard) {
+            dashboard.panel.reveal();
+            return;
+        }
+        let panel = vscode.window.createWebviewPanel(
+            'payaraMonitoringDashboard',
+            `Health & Metrics - ${ownerName}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        dashboard = new MonitoringDashboard(panel, key, ownerName, new MonitoringClient(baseUrl), isRunning);
+        MonitoringDashboard.panels.set(key, dashboard);
+    }
+
+    private start(): void {
+        this.stop();
+        this.poll();
+        this.timer = setInterval(() => this.poll(), this.interval * 1000);
+    }
+
+    private stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private async poll(): Promise<void> {
+        if (this.polling) {
+            return;
+        }
+        if (!this.isRunning()) {
+            this.post({ command: 'update', error: `${this.ownerName} is not running.` });
+            return;
+        }
+        this.polling = true;
+        try {
+            let health = await this.client.fetchHealth();
+            let metrics: { [name: string]: number } = {};
+            let error: string | undefined;
+            try {
+                metrics = await this.client.fetchMetrics();
+            } catch (metricsError) {
+                error = 'Unable to read the metrics: ' + AsadminError.getMessage(metricsError);
+            }
+            this.post({
+                command: 'update',
+                time: Date.now(),
+                health: health,
+                metrics: metrics,
+                error: error
+            });
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    /**
+     * Posts the message unless the panel was closed while polling.
+     */
+    private post(message: any): void {
+        if (!this.disposed) {
+            this.panel.webview.postMessage(message);
+        }
+    }
+
+    private render(): string {
+        let nonce = Math.random().toString(36).substring(2);
+        let intervals = INTERVALS
+            .map(interval => `<option value="${interval}"${interval === this.interval ? ' selected' : ''}>${interval} s</option>`)
+            .join('');
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    select, input { color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 3px; }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    table { border-collapse: collapse; margin-bottom: 1em; }
+    th, td { text-align: left; padding: 2px 12px 2px 0; vertical-align: top; }
+    th { color: var(--vscode-descriptionForeground); font-weight: normal; }
+    .UP { color: var(--vscode-testing-iconPassed, green); }
+    .DOWN, .UNAVAILABLE, .error { color: var(--vscode-errorForeground); }
+    .charts { display: flex; flex-wrap: wrap; gap: 16px; }
+    .chart { width: 320px; }
+    .chart svg { width: 320px; height: 80px; background: var(--vscode-editorWidget-background); }
+    .chart polyline { fill: none; stroke: var(--vscode-charts-blue, #3794ff); stroke-width: 1.5; }
+    .chart .name { font-size: 0.9em; word-break: break-all; }
+    #metrics { max-height: 200px; overflow: auto; border: 1px solid var(--vscode-panel-border); padding: 4px; }
+    #metrics label { display: block; font-size: 0.9em; }
+</style>
+</head>
+<body>
+<h2>${StringUtils.escapeHtml(this.ownerName)}</h2>
+<p>
+    Refresh every <select id="interval">${intervals}</select>
+    <button id="refresh">Refresh</button>
+    <span id="updated"></span>
+</p>
+<p id="error" class="error"></p>
+<h3>Health</h3>
+<div id="health"></div>
+<h3>Metrics</h3>
+<div id="charts" class="charts"></div>
+<details>
+    <summary>Select metrics</summary>
+    <input id="filter" placeholder="Filter metrics">
+    <div id="metrics"></div>
+</details>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const SAMPLES = 60;
+    const DEFAULT_METRICS = /memory_usedHeap|thread_count|request|^application_/i;
+    const state = vscode.getState() || {};
+    let selected = state.selected ? new Set(state.selected) : undefined;
+    let names = [];
+    const history = {};
+
+    const escape = value => String(value).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+    const save = () => vscode.setState({ selected: Array.from(selected) });
+
+    document.getElementById('interval').addEventListener('change', event =>
+        vscode.postMessage({ command: 'interval', interval: Number(event.target.value) }));
+    document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+    document.getElementById('filter').addEventListener('input', renderSelection);
+
+    function renderHealth(health) {
+        document.getElementById('health').innerHTML = health.map(result => {
+            let rows = result.checks.map(check => '<tr><td>' + escape(check.name) + '</td><td class="' + escape(check.status) + '">'
+                + escape(check.status) + '</td><td>' + escape(check.data ? JSON.stringify(check.data) : '') + '</td></tr>').join('');
+            return '<h4>' + escape(result.path) + ' <span class="' + escape(result.status) + '">' + escape(result.status) + '</span></h4>'
+                + (result.error ? '<p class="error">' + escape(result.error) + '</p>' : '')
+                + (rows ? '<table>' + rows + '</table>' : '');
+        }).join('');
+    }
+
+    function renderSelection() {
+        let filter = document.getElementById('filter').value.toLowerCase();
+        document.getElementById('metrics').innerHTML = names
+            .filter(name => name.toLowerCase().indexOf(filter) > -1)
+            .map(name => '<label><input type="checkbox" data-name="' + escape(name) + '"' + (selected.has(name) ? ' checked' : '') + '> '
+                + escape(name) + '</label>')
+            .join('');
+        document.querySelectorAll('#metrics input').forEach(input => input.addEventListener('change', () => {
+            if (input.checked) {
+                selected.add(input.dataset.name);
+            } else {
+                selected.delete(input.dataset.name);
+            }
+            save();
+            renderCharts();
+        }));
+    }
+
+    function renderCharts() {
+        document.getElementById('charts').innerHTML = names.filter(name => selected.has(name)).map(name => {
+            let values = history[name] || [];
+            let min = Math.min(...values);
+            let max = Math.max(...values);
+            let range = max - min || 1;
+            let points = values.map((value, index) =>
+                (index * 320 / (SAMPLES - 1)).toFixed(1) + ',' + (76 - (value - min) * 72 / range).toFixed(1)).join(' ');
+            return '<div class="chart"><div class="name">' + escape(name) + '</div>'
+                + '<svg viewBox="0 0 320 80" preserveAspectRatio="none"><polyline points="' + points + '"></polyline></svg>'
+                + '<div>' + escape(values.length > 0 ? values[values.length - 1].toLocaleString() : '-')
+                + ' <small>(min ' + escape(min.toLocaleString()) + ', max ' + escape(max.toLocaleString()) + ')</small></div></div>';
+        }).join('');
+    }
+
+    window.addEventListener('message', event => {
+        let message = event.data;
+        if (message.command !== 'update') {
+            return;
+        }
+        document.getElementById('error').textContent = message.error || '';
+        if (!message.health) {
+            return;
+        }
+        document.getElementById('updated').textContent = 'Updated ' + new Date(message.time).toLocaleTimeString();
+        renderHealth(message.health);
+        let metricNames = Object.keys(message.metrics).sort();
+        for (let name of metricNames) {
+            let values = history[name] || (history[name] = []);
+            values.push(message.metrics[name]);
+            if (values.length > SAMPLES) {
+                values.shift();
+            }
+        }
+        if (!selected && metricNames.length > 0) {
+            selected = new Set(metricNames.filter(name => DEFAULT_METRICS.test(name)));
+            save();
+        }
+        if (metricNames.join() !== names.join()) {
+            names = metricNames;
+            renderSelection();
+        }
+        renderCharts();
+    });
+</script>
+</body>
+</html>`;
+    }
+
+}
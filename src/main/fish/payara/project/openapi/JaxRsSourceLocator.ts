@@ -0,0 +1,173 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { OpenApiOperationInfo } from "./OpenApiClient";
+
+const PATH_ANNOTATION: RegExp = /@(?:javax\.ws\.rs\.|jakarta\.ws\.rs\.)?Path\s*\(\s*(?:value\s*=\s*)?"([^"]*)"\s*\)/;
+const METHOD_ANNOTATION: RegExp = /@(?:javax\.ws\.rs\.|jakarta\.ws\.rs\.)?(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\b/g;
+const TYPE_DECLARATION: RegExp = /\b(?:class|interface)\s+\w+/;
+const METHOD_DECLARATION: RegExp = /(\w+)\s*\(/g;
+
+/**
+ * Finds the JAX-RS resource method of an OpenAPI operation in the Java
+ * sources of the workspace, by matching the HTTP method and the trailing
+ * segments of the path against the @Path annotations.
+ */
+export class JaxRsSourceLocator {
+
+    public async locate(operation: OpenApiOperationInfo, token?: vscode.CancellationToken): Promise<vscode.Location | undefined> {
+        let files = await vscode.workspace.findFiles('**/*.java', '**/{target,build,node_modules}/**', undefined, token);
+        let operationPath = JaxRsSourceLocator.getSegments(operation.path);
+        let best: { file: vscode.Uri, offset: number, score: number } | undefined;
+        for (let file of files) {
+            if (token && token.isCancellationRequested) {
+                return undefined;
+            }
+            let source = await JaxRsSourceLocator.read(file);
+            if (!PATH_ANNOTATION.test(source)) {
+                continue;
+            }
+            for (let method of JaxRsSourceLocator.parseResourceMethods(source)) {
+                if (method.httpMethod !== operation.method) {
+                    continue;
+                }
+                let score = JaxRsSourceLocator.match(operationPath, JaxRsSourceLocator.getSegments(method.path));
+                if (score < 0) {
+                    continue;
+                }
+                if (operation.operationId && operation.operationId === method.name) {
+                    score += 1000;
+                }
+                if (!best || score > best.score) {
+                    best = { file: file, offset: method.offset, score: score };
+                }
+            }
+        }
+        if (!best) {
+            return undefined;
+        }
+        let document = await vscode.workspace.openTextDocument(best.file);
+        return new vscode.Location(best.file, document.positionAt(best.offset));
+    }
+
+    /**
+     * Reads a source without opening a document, most sources have no @Path,
+     * the text of an already opened document may have unsaved changes.
+     */
+    private static async read(file: vscode.Uri): Promise<string> {
+        let document = vscode.workspace.textDocuments.find(opened => opened.uri.toString() === file.toString());
+        if (document) {
+            return document.getText();
+        }
+        return Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8').replace(/^\uFEFF/, '');
+    }
+
+    /**
+     * @returns the resource methods of a Java source, with the path of the
+     *          class and of the method joined.
+     */
+    public static parseResourceMethods(source: string): ResourceMethod[] {
+        let methods: ResourceMethod[] = [];
+        let declaration = TYPE_DECLARATION.exec(source);
+        if (!declaration) {
+            return methods;
+        }
+        let classPath = PATH_ANNOTATION.exec(source.substring(0, declaration.index));
+        let body = declaration.index + declaration[0].length;
+        let annotation: RegExpExecArray | null;
+        METHOD_ANNOTATION.lastIndex = body;
+        while ((annotation = METHOD_ANNOTATION.exec(source)) !== null) {
+            // the annotations of the method start after the previous member
+            let start = Math.max(
+                source.lastIndexOf(';', annotation.index),
+                source.lastIndexOf('{', annotation.index),
+                source.lastIndexOf('}', annotation.index)
+            );
+            let name = JaxRsSourceLocator.findMethodName(source, METHOD_ANNOTATION.lastIndex);
+            if (!name) {
+                continue;
+            }
+            let methodPath = PATH_ANNOTATION.exec(source.substring(start + 1, name.index));
+            methods.push({
+                name: name.name,
+                httpMethod: annotation[1],
+                path: (classPath ? classPath[1] : '') + '/' + (methodPath ? methodPath[1] : ''),
+                offset: name.index
+            });
+            METHOD_ANNOTATION.lastIndex = name.index;
+        }
+        return methods;
+    }
+
+    /**
+     * @returns the number of trailing segments of the operation path matched
+     *          by the resource path, or -1 if the paths differ.
+     */
+    private static match(operationPath: string[], resourcePath: string[]): number {
+        if (resourcePath.length > operationPath.length) {
+            return -1;
+        }
+        let offset = operationPath.length - resourcePath.length;
+        for (let i = 0; i < resourcePath.length; i++) {
+            if (resourcePath[i] !== operationPath[offset + i]) {
+                return -1;
+            }
+        }
+        return resourcePath.length;
+    }
+
+    /**
+     * Splits a path, the regular expression of the path parameters
+     * e.g <code>{id: \d+}</code> is ignored.
+     */
+    private static getSegments(path: string): string[] {
+        return path
+            .replace(/\{\s*([\w.-]+)\s*(?::[^}]*)?\}/g, '{$1}')
+            .split('/')
+            .filter(segment => segment.length > 0);
+    }
+
+    private static findMethodName(source: string, from: number): { name: string, index: number } | undefined {
+        METHOD_DECLARATION.lastIndex = from;
+        let match: RegExpExecArray | null;
+        while ((match = METHOD_DECLARATION.exec(source)) !== null) {
+            // skips the arguments of the annotations e.g @Produces(...)
+            if (source.charAt(match.index - 1) !== '@' && !/[.@]\s*$/.test(source.substring(from, match.index))) {
+                return { name: match[1], index: match.index };
+            }
+            let close = source.indexOf(')', match.index);
+            if (close < 0) {
+                return undefined;
+            }
+            METHOD_DECLARATION.lastIndex = close + 1;
+        }
+        return undefined;
+    }
+
+}
+
+interface ResourceMethod {
+    name: string;
+    httpMethod: string;
+    /** Path of the class joined with the path of the method. */
+    path: string;
+    /** Offset of the method name in the source. */
+    offset: number;
+}
@@ -0,0 +1,214 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import { HttpUtils } from '../../server/tooling/utils/HttpUtils';
+
+const HTTP_METHODS: string[] = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Reads the MicroProfile OpenAPI document served at <code>/openapi</code> by
+ * Payara Server and Payara Micro.
+ */
+export class OpenApiClient {
+
+    /**
+     * @param baseUrl scheme, host and port of the HTTP listener e.g
+     *                <code>http://localhost:8080</code>.
+     */
+    constructor(private baseUrl: string) {
+    }
+
+    public getUrl(): string {
+        return this.baseUrl.replace(/\/+$/, '') + '/openapi';
+    }
+
+    /**
+     * @param format media type of the document, YAML is the default format
+     *               of the MicroProfile OpenAPI endpoint.
+     * @returns the raw document.
+     */
+    public fetchText(format: OpenApiFormat = 'yaml'): Promise<string> {
+        return HttpUtils.get(this.getUrl(), format === 'json' ? 'application/json' : 'application/yaml');
+    }
+
+    public async fetchDocument(): Promise<OpenApiDocument> {
+        return OpenApiClient.parse(JSON.parse(await this.fetchText('json')));
+    }
+
+    public static parse(spec: any): OpenApiDocument {
+        let operations: OpenApiOperationInfo[] = [];
+        let paths = spec.paths || {};
+        for (let path of Object.keys(paths)) {
+            let pathItem = paths[path] || {};
+            let pathParameters: any[] = pathItem.parameters || [];
+            for (let method of Object.keys(pathItem)) {
+                if (HTTP_METHODS.indexOf(method) < 0) {
+                    continue;
+                }
+                let operation = pathItem[method] || {};
+                // operation parameters override the path item ones with the same name and location
+                let parameters = pathParameters
+                    .filter(parameter => !(operation.parameters || []).some(
+                        (override: any) => override.name === parameter.name && override.in === parameter.in))
+                    .concat(operation.parameters || [])
+                    .map(parameter => OpenApiClient.resolve(spec, parameter));
+                let responses = operation.responses || {};
+                operations.push({
+                    path: path,
+                    method: method.toUpperCase(),
+                    tags: operation.tags && operation.tags.length > 0 ? operation.tags : [],
+                    operationId: operation.operationId,
+                    summary: operation.summary || operation.description,
+                    parameters: parameters.map(parameter => ({
+                        name: parameter.name,
+                        in: parameter.in,
+                        required: parameter.required === true,
+                        schema: parameter.schema
+                    })),
+                    requestBody: operation.requestBody
+                        ? OpenApiClient.getContents(spec, OpenApiClient.resolve(spec, operation.requestBody))
+                        : [],
+                    responses: Object.keys(responses).map(code => {
+                        let response = OpenApiClient.resolve(spec, responses[code]);
+                        return {
+                            code: code,
+                            description: response.description,
+                            contents: OpenApiClient.getContents(spec, response)
+                        };
+                    })
+                });
+            }
+        }
+        return {
+            title: spec.info && spec.info.title,
+            version: spec.info && spec.info.version,
+            operations: operations,
+            spec: spec
+        };
+    }
+
+    /**
+     * @returns a short description of the schema e.g <code>Person[]</code>.
+     */
+    public static getSchemaLabel(schema: any): string {
+        if (!schema) {
+            return '';
+        }
+        if (schema.$ref) {
+            return String(schema.$ref).substring(String(schema.$ref).lastIndexOf('/') + 1);
+        }
+        if (schema.type === 'array') {
+            return OpenApiClient.getSchemaLabel(schema.items) + '[]';
+        }
+        if (schema.type) {
+            return schema.format ? `${schema.type} (${schema.format})` : schema.type;
+        }
+        return 'object';
+    }
+
+    /**
+     * @returns the schema with the references to the components inlined,
+     *          up to the given depth.
+     */
+    public static expandSchema(spec: any, schema: any, depth: number = 3): any {
+        if (!schema || typeof schema !== 'object') {
+            return schema;
+        }
+        if (schema.$ref) {
+            return depth > 0 ? OpenApiClient.expandSchema(spec, OpenApiClient.resolve(spec, schema), depth - 1) : schema;
+        }
+        if (Array.isArray(schema)) {
+            return schema.map(item => OpenApiClient.expandSchema(spec, item, depth));
+        }
+        let expanded: any = {};
+        for (let key of Object.keys(schema)) {
+            expanded[key] = OpenApiClient.expandSchema(spec, schema[key], depth);
+        }
+        return expanded;
+    }
+
+    private static getContents(spec: any, holder: any): OpenApiContent[] {
+        let content = holder.content || {};
+        return Object.keys(content).map(mediaType => ({
+            mediaType: mediaType,
+            schema: content[mediaType] ? content[mediaType].schema : undefined
+        }));
+    }
+
+    /**
+     * Follows a local reference e.g <code>#/components/schemas/Person</code>.
+     */
+    private static resolve(spec: any, value: any): any {
+        let resolved = value;
+        let visited: string[] = [];
+        while (resolved && typeof resolved.$ref === 'string' && resolved.$ref.startsWith('#/')
+            && visited.indexOf(resolved.$ref) < 0) {
+            visited.push(resolved.$ref);
+            let target = spec;
+            for (let segment of resolved.$ref.substring(2).split('/')) {
+                target = target ? target[segment.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined;
+            }
+            if (!target) {
+                break;
+            }
+            resolved = target;
+        }
+        return resolved || {};
+    }
+
+}
+
+export type OpenApiFormat = 'yaml' | 'json';
+
+export interface OpenApiDocument {
+    title?: string;
+    version?: string;
+    operations: OpenApiOperationInfo[];
+    /** Parsed JSON document. */
+    spec: any;
+}
+
+export interface OpenApiOperationInfo {
+    path: string;
+    method: string;
+    tags: string[];
+    operationId?: string;
+    summary?: string;
+    parameters: OpenApiParameter[];
+    requestBody: OpenApiContent[];
+    responses: OpenApiResponse[];
+}
+
+export interface OpenApiParameter {
+    name: string;
+    in: string;
+    required: boolean;
+    schema?: any;
+}
+
+export interface OpenApiContent {
+    mediaType: string;
+    schema?: any;
+}
+
+export interface OpenApiResponse {
+    code: string;
+    description?: string;
+    contents: OpenApiContent[];
+}
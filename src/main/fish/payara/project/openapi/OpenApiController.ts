@@ -0,0 +1,86 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as fs from "fs";
+import * as vscode from "vscode";
+import { AsadminError } from "../../server/endpoints/AsadminError";
+import { JaxRsSourceLocator } from "./JaxRsSourceLocator";
+import { OpenApiClient, OpenApiFormat } from "./OpenApiClient";
+import { OpenApiNode } from "./OpenApiNode";
+import { OpenApiOperation } from "./OpenApiOperation";
+
+export class OpenApiController {
+
+    private locator: JaxRsSourceLocator = new JaxRsSourceLocator();
+
+    public refresh(node: OpenApiNode): void {
+        node.reset();
+        vscode.commands.executeCommand(node.refreshCommand, node);
+    }
+
+    public async goToSource(item: OpenApiOperation): Promise<void> {
+        let operation = item.operation;
+        let location = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: `Searching ${operation.method} ${operation.path}`,
+            cancellable: true
+        }, (progress, token) => this.locator.locate(operation, token));
+        if (!location) {
+            vscode.window.showInformationMessage(`No JAX-RS resource method found in the workspace for ${operation.method} ${operation.path}.`);
+            return;
+        }
+        let editor = await vscode.window.showTextDocument(location.uri);
+        editor.selection = new vscode.Selection(location.range.start, location.range.start);
+        editor.revealRange(location.range, vscode.TextEditorRevealType.InCenter);
+    }
+
+    public async exportSpec(node: OpenApiNode): Promise<void> {
+        let format = await vscode.window.showQuickPick(
+            [
+                { label: 'YAML', format: 'yaml' as OpenApiFormat },
+                { label: 'JSON', format: 'json' as OpenApiFormat }
+            ],
+            { placeHolder: 'Select the format of the OpenAPI document' }
+        );
+        if (!format) {
+            return;
+        }
+        let folders = vscode.workspace.workspaceFolders;
+        let fileName = 'openapi.' + format.format;
+        let target = await vscode.window.showSaveDialog({
+            defaultUri: folders && folders.length > 0 ? vscode.Uri.joinPath(folders[0].uri, fileName) : undefined,
+            filters: format.format === 'json' ? { 'JSON': ['json'] } : { 'YAML': ['yaml', 'yml'] },
+            saveLabel: 'Export'
+        });
+        if (!target) {
+            return;
+        }
+        try {
+            let text = await new OpenApiClient(node.baseUrl).fetchText(format.format);
+            if (format.format === 'json') {
+                text = JSON.stringify(JSON.parse(text), null, 2);
+            }
+            fs.writeFileSync(target.fsPath, text);
+            vscode.window.showTextDocument(target);
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to export the OpenAPI document. ' + AsadminError.getMessage(error));
+        }
+    }
+
+}
@@ -0,0 +1,90 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { OpenApiClient, OpenApiDocument } from "./OpenApiClient";
+import { OpenApiTag } from "./OpenApiTag";
+import { AsadminError } from "../../server/endpoints/AsadminError";
+
+const UNTAGGED = 'default';
+
+/**
+ * "OpenAPI" node of a running Payara Server or Payara Micro instance, lists
+ * the operations of the OpenAPI document grouped by tag.
+ */
+export class OpenApiNode extends vscode.TreeItem {
+
+    private document: Promise<OpenApiDocument> | undefined;
+
+    /**
+     * @param ownerName      name of the server or Micro instance.
+     * @param baseUrl        scheme, host and port of the HTTP listener.
+     * @param refreshCommand command refreshing the tree containing the node.
+     */
+    constructor(
+        public ownerName: string,
+        public baseUrl: string,
+        public refreshCommand: string) {
+        super('OpenAPI', vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `${ownerName}/openapi`;
+        this.iconPath = new vscode.ThemeIcon('symbol-interface');
+        this.contextValue = 'payara-openapi';
+        this.tooltip = new OpenApiClient(baseUrl).getUrl();
+    }
+
+    /**
+     * @returns the document, fetched once until the node is reset.
+     */
+    public getDocument(): Promise<OpenApiDocument> {
+        if (!this.document) {
+            this.document = new OpenApiClient(this.baseUrl).fetchDocument();
+            this.document.catch(() => {
+                this.document = undefined;
+            });
+        }
+        return this.document;
+    }
+
+    public reset(): void {
+        this.document = undefined;
+    }
+
+    public async fetchChildren(): Promise<vscode.TreeItem[]> {
+        try {
+            let document = await this.getDocument();
+            let tags = new Map<string, OpenApiTag>();
+            for (let operation of document.operations) {
+                for (let tag of operation.tags.length > 0 ? operation.tags : [UNTAGGED]) {
+                    let node = tags.get(tag);
+                    if (!node) {
+                        node = new OpenApiTag(this, tag, document);
+                        tags.set(tag, node);
+                    }
+                    node.operations.push(operation);
+                }
+            }
+            this.description = [document.title, document.version].filter(value => value).join(' ');
+            return Array.from(tags.values()).sort((tag1, tag2) => tag1.name.localeCompare(tag2.name));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Unable to read the OpenAPI document of ${this.ownerName}. ` + AsadminError.getMessage(error));
+            return [];
+        }
+    }
+
+}
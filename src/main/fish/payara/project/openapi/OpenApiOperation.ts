@@ -0,0 +1,88 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { OpenApiClient, OpenApiContent, OpenApiOperationInfo } from "./OpenApiClient";
+import { OpenApiTag } from "./OpenApiTag";
+
+export class OpenApiOperation extends vscode.TreeItem {
+
+    constructor(
+        public tag: OpenApiTag,
+        public operation: OpenApiOperationInfo) {
+        super(`${operation.method} ${operation.path}`, vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `${tag.id}/${operation.method} ${operation.path}`;
+        this.description = operation.summary;
+        this.tooltip = operation.operationId ? `${operation.operationId}: ${operation.summary || ''}` : operation.summary;
+        this.iconPath = new vscode.ThemeIcon('symbol-method');
+        this.contextValue = 'payara-openapi-operation';
+    }
+
+    /**
+     * @returns the parameters, request body and responses of the operation.
+     */
+    public getChildren(): vscode.TreeItem[] {
+        let spec = this.tag.document.spec;
+        let items: vscode.TreeItem[] = [];
+        for (let parameter of this.operation.parameters) {
+            let item = new vscode.TreeItem(parameter.name);
+            item.description = `${parameter.in} · ${OpenApiClient.getSchemaLabel(parameter.schema)}`
+                + (parameter.required ? ' · required' : '');
+            item.tooltip = this.getSchemaTooltip(spec, parameter.schema);
+            item.iconPath = new vscode.ThemeIcon('symbol-parameter');
+            items.push(item);
+        }
+        for (let content of this.operation.requestBody) {
+            let item = new vscode.TreeItem('Request body');
+            item.description = this.getContentLabel(content);
+            item.tooltip = this.getSchemaTooltip(spec, content.schema);
+            item.iconPath = new vscode.ThemeIcon('arrow-right');
+            items.push(item);
+        }
+        for (let response of this.operation.responses) {
+            let contents = response.contents.length > 0 ? response.contents : [{ mediaType: '' }];
+            for (let content of contents) {
+                let item = new vscode.TreeItem(response.code);
+                item.description = [response.description, this.getContentLabel(content)]
+                    .filter(value => value)
+                    .join(' · ');
+                item.tooltip = this.getSchemaTooltip(spec, content.schema);
+                item.iconPath = new vscode.ThemeIcon('arrow-left');
+                items.push(item);
+            }
+        }
+        return items;
+    }
+
+    private getContentLabel(content: OpenApiContent): string {
+        return [content.mediaType, OpenApiClient.getSchemaLabel(content.schema)]
+            .filter(value => value)
+            .join(' · ');
+    }
+
+    private getSchemaTooltip(spec: any, schema: any): vscode.MarkdownString | undefined {
+        if (!schema) {
+            return undefined;
+        }
+        let tooltip = new vscode.MarkdownString();
+        tooltip.appendCodeblock(JSON.stringify(OpenApiClient.expandSchema(spec, schema), null, 2), 'json');
+        return tooltip;
+    }
+
+}
@@ -0,0 +1,183 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from 'vscode';
+import { QuickPickItem } from 'vscode';
+import { PayaraServerInstance } from './PayaraServerInstance';
+import { PayaraServerInstanceController } from './PayaraServerInstanceController';
+import { AsadminClient } from './endpoints/AsadminClient';
+import { AsadminCommandLine } from './endpoints/AsadminCommandLine';
+import { AsadminError } from './endpoints/AsadminError';
+import { MessagePart } from './endpoints/ActionReport';
+
+const HISTORY_KEY: string = 'payara.server.asadmin.history';
+const HISTORY_SIZE: number = 20;
+const COMMAND_NAME: RegExp = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Runs arbitrary asadmin commands against a registered Payara Server and
+ * prints the action report in the server output channel.
+ */
+export class AsadminCommandRunner {
+
+    /**
+     * Commands of each server returned by list-commands.
+     */
+    private commands: Map<string, string[]> = new Map<string, string[]>();
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private controller: PayaraServerInstanceController) {
+    }
+
+    public async runCommand(payaraServer?: PayaraServerInstance): Promise<void> {
+        if (payaraServer) {
+            this.promptCommand(payaraServer);
+        } else {
+            this.controller.selectListedServer(server => this.promptCommand(server));
+        }
+    }
+
+    private async promptCommand(payaraServer: PayaraServerInstance): Promise<void> {
+        if (!payaraServer.isStarted()) {
+            vscode.window.showErrorMessage('Payara Server instance not running.');
+            return;
+        }
+        let history = this.getHistory(payaraServer);
+        let quickPick = vscode.window.createQuickPick<AsadminCommandItem>();
+        quickPick.title = `Run asadmin command on ${payaraServer.getName()}`;
+        quickPick.placeholder = 'asadmin command e.g create-jdbc-resource --connectionpoolid DerbyPool jdbc/sample';
+        quickPick.ignoreFocusOut = true;
+        quickPick.matchOnDescription = false;
+
+        let baseItems: AsadminCommandItem[] = history.map(line => ({
+            label: line,
+            description: 'recently used',
+            line: line
+        }));
+        let updateItems = () => {
+            let value = quickPick.value.trim();
+            let items: AsadminCommandItem[] = [];
+            if (value.length > 0 && !baseItems.some(item => item.label === value)) {
+                items.push({ label: value, description: 'run', line: value });
+            }
+            quickPick.items = items.concat(baseItems);
+        };
+        quickPick.onDidChangeValue(updateItems);
+        quickPick.onDidAccept(() => {
+            let item = quickPick.selectedItems[0];
+            if (item && item.complete) {
+                // completion of the command name, the options are typed next
+                quickPick.value = item.label + ' ';
+                updateItems();
+                return;
+            }
+            let line = item ? item.line : quickPick.value.trim();
+            quickPick.hide();
+            if (line) {
+                this.execute(payaraServer, line);
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        updateItems();
+        quickPick.show();
+
+        quickPick.busy = true;
+        let commands = await this.listCommands(payaraServer);
+        quickPick.busy = false;
+        baseItems = baseItems.concat(commands.map(command => ({
+            label: command,
+            description: 'command',
+            complete: true
+        })));
+        updateItems();
+    }
+
+    private async execute(payaraServer: PayaraServerInstance, line: string): Promise<void> {
+        let outputChannel = payaraServer.getOutputChannel();
+        let commandLine: AsadminCommandLine;
+        try {
+            commandLine = AsadminCommandLine.parse(line);
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to run the asadmin command: ' + AsadminError.getMessage(error));
+            return;
+        }
+        await this.addHistory(payaraServer, line);
+        outputChannel.show(false);
+        outputChannel.appendLine(`> asadmin ${line}`);
+        try {
+            let report = await new AsadminClient(payaraServer).invoke(commandLine.command, commandLine.parameters, { timeout: 0 });
+            outputChannel.appendLine(report.toText());
+            outputChannel.appendLine(`Command ${commandLine.command} executed successfully.`);
+        } catch (error) {
+            if (error instanceof AsadminError && error.report) {
+                outputChannel.appendLine(error.report.toText());
+            }
+            outputChannel.appendLine(`Command ${commandLine.command} failed: ${AsadminError.getMessage(error)}`);
+            vscode.window.showErrorMessage(`Unable to run the asadmin command ${commandLine.command}: ` + AsadminError.getMessage(error));
+        }
+    }
+
+    private async listCommands(payaraServer: PayaraServerInstance): Promise<string[]> {
+        let commands = this.commands.get(payaraServer.getName());
+        if (commands) {
+            return commands;
+        }
+        try {
+            let report = await new AsadminClient(payaraServer).invoke('list-commands');
+            let names = new Set<string>();
+            let collect = (part: MessagePart) => {
+                for (let name of part.message.split(/\s+/)) {
+                    if (COMMAND_NAME.test(name)) {
+                        names.add(name);
+                    }
+                }
+                part.children.forEach(collect);
+            };
+            report.parts.forEach(collect);
+            commands = Array.from(names).sort();
+            this.commands.set(payaraServer.getName(), commands);
+            return commands;
+        } catch (error) {
+            console.error(error);
+            return [];
+        }
+    }
+
+    private getHistory(payaraServer: PayaraServerInstance): string[] {
+        let history = this.context.globalState.get<{ [server: string]: string[] }>(HISTORY_KEY, {});
+        return history[payaraServer.getName()] || [];
+    }
+
+    private async addHistory(payaraServer: PayaraServerInstance, line: string): Promise<void> {
+        let history = { ...this.context.globalState.get<{ [server: string]: string[] }>(HISTORY_KEY, {}) };
+        let lines = (history[payaraServer.getName()] || []).filter(entry => entry !== line);
+        lines.unshift(line);
+        history[payaraServer.getName()] = lines.slice(0, HISTORY_SIZE);
+        await this.context.globalState.update(HISTORY_KEY, history);
+    }
+
+}
+
+interface AsadminCommandItem extends QuickPickItem {
+    /** Command line to run. */
+    line?: string;
+    /** Command name to complete. */
+    complete?: boolean;
+}
@@ -0,0 +1,226 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { QuickPickItem } from "vscode";
+import { PayaraServerInstance } from "./PayaraServerInstance";
+import { PayaraLocalServerInstance } from "./PayaraLocalServerInstance";
+import { AsadminClient } from "./endpoints/AsadminClient";
+import { AsadminError } from "./endpoints/AsadminError";
+import { JDKVersion } from "./start/JDKVersion";
+import { JvmConfigReader } from "./start/JvmConfigReader";
+import { JvmConfigWriter } from "./start/JvmConfigWriter";
+import { JvmOption } from "./start/JvmOption";
+import { ServerUtils } from "./tooling/utils/ServerUtils";
+
+/**
+ * Lists and edits the JVM options of a domain. Running servers are updated
+ * through create-jvm-options / delete-jvm-options, the domain.xml of stopped
+ * local servers is edited directly.
+ */
+export class JvmOptionsController {
+
+    public async editJvmOptions(payaraServer: PayaraServerInstance): Promise<void> {
+        let store = this.getStore(payaraServer);
+        if (!store) {
+            return;
+        }
+        let values: string[];
+        try {
+            values = await store.list();
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to read the JVM options. ' + AsadminError.getMessage(error));
+            return;
+        }
+        let jdk = await this.getJDK(payaraServer);
+        let addOption: JvmOptionItem = { label: '$(add) Add JVM option...' };
+        let items: JvmOptionItem[] = values.map(value => this.toItem(new JvmOption(value), jdk));
+        let pick = await vscode.window.showQuickPick([addOption, ...items], {
+            placeHolder: `JVM options of ${payaraServer.getName()}` + (jdk ? ` (JDK ${jdk.label})` : ''),
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!pick) {
+            return;
+        }
+        try {
+            let changed: boolean;
+            if (pick === addOption) {
+                changed = await this.addOption(store);
+            } else {
+                changed = await this.updateOption(store, <string>pick.value);
+            }
+            if (!changed) {
+                return;
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to update the JVM options. ' + AsadminError.getMessage(error));
+            return;
+        }
+        if (payaraServer.isStarted()) {
+            vscode.window.showInformationMessage(`JVM options of ${payaraServer.getName()} updated, restart the server to apply them.`);
+        }
+        this.editJvmOptions(payaraServer);
+    }
+
+    private async addOption(store: JvmOptionStore): Promise<boolean> {
+        let value = await vscode.window.showInputBox({
+            prompt: 'Enter the JVM option, optionally prefixed with the JDK version range e.g [17|]-XX:+UseZGC',
+            validateInput: value => this.validateOption(value)
+        });
+        if (!value) {
+            return false;
+        }
+        await store.add(value.trim());
+        return true;
+    }
+
+    private async updateOption(store: JvmOptionStore, value: string): Promise<boolean> {
+        let edit = { label: 'Edit' };
+        let remove = { label: 'Remove' };
+        let action = await vscode.window.showQuickPick([edit, remove], {
+            placeHolder: value
+        });
+        if (action === edit) {
+            let newValue = await vscode.window.showInputBox({
+                prompt: 'Enter the JVM option, optionally prefixed with the JDK version range e.g [17|]-XX:+UseZGC',
+                value: value,
+                validateInput: value => this.validateOption(value)
+            });
+            if (!newValue || newValue.trim() === value) {
+                return false;
+            }
+            await store.replace(value, newValue.trim());
+            return true;
+        } else if (action === remove) {
+            await store.remove(value);
+            return true;
+        }
+        return false;
+    }
+
+    private toItem(jvmOption: JvmOption, jdk: JdkInfo | undefined): JvmOptionItem {
+        let item: JvmOptionItem = {
+            label: jvmOption.option,
+            description: jvmOption.getPrefix(),
+            value: jvmOption.value
+        };
+        if (jdk && !JDKVersion.isCorrectJDK(
+            jdk.version,
+            jvmOption.vendor,
+            jvmOption.minVersion,
+            jvmOption.maxVersion,
+            jdk.javaHome ? jvmOption.option : undefined, // CRaC support can only be checked locally
+            jdk.javaHome)) {
+            item.detail = `$(warning) Not applied, the option does not match JDK ${jdk.label}`;
+        }
+        return item;
+    }
+
+    private async validateOption(value: string): Promise<string | undefined> {
+        let jvmOption = new JvmOption(value.trim());
+        if (!jvmOption.option.startsWith('-')) {
+            return 'JVM option must start with a hyphen.';
+        }
+        return undefined;
+    }
+
+    private getStore(payaraServer: PayaraServerInstance): JvmOptionStore | undefined {
+        if (payaraServer.isStarted()) {
+            let client: AsadminClient = new AsadminClient(payaraServer);
+            return {
+                list: () => client.listJvmOptions(),
+                add: async value => { await client.createJvmOption(value); },
+                remove: async value => { await client.deleteJvmOption(value); },
+                replace: async (oldValue, newValue) => {
+                    await client.deleteJvmOption(oldValue);
+                    try {
+                        await client.createJvmOption(newValue);
+                    } catch (error) {
+                        await client.createJvmOption(oldValue); // restore the previous option
+                        throw error;
+                    }
+                }
+            };
+        } else if (payaraServer instanceof PayaraLocalServerInstance && payaraServer.isStopped()) {
+            let domainXmlPath = payaraServer.getDomainXmlPath();
+            let writer = new JvmConfigWriter(domainXmlPath, ServerUtils.DAS_NAME);
+            return {
+                list: async () => new JvmConfigReader(domainXmlPath, ServerUtils.DAS_NAME)
+                    .getJvmOptions()
+                    .map(jvmOption => jvmOption.value),
+                add: value => writer.addJvmOption(value),
+                remove: value => writer.removeJvmOption(value),
+                replace: (oldValue, newValue) => writer.replaceJvmOption(oldValue, newValue)
+            };
+        } else if (payaraServer instanceof PayaraLocalServerInstance) {
+            vscode.window.showErrorMessage('Please wait until the Payara Server instance is started or stopped.');
+        } else {
+            vscode.window.showErrorMessage('Payara Server instance not running.');
+        }
+        return undefined;
+    }
+
+    private async getJDK(payaraServer: PayaraServerInstance): Promise<JdkInfo | undefined> {
+        try {
+            if (payaraServer instanceof PayaraLocalServerInstance) {
+                let javaHome = payaraServer.getJDKHome();
+                let version = javaHome ? JDKVersion.getJDKVersion(javaHome) : undefined;
+                if (javaHome && version) {
+                    return { version: version, label: this.getVersionLabel(version), javaHome: javaHome };
+                }
+            } else {
+                let javaVersion = await new AsadminClient(payaraServer).javaVersion();
+                let version = javaVersion ? JDKVersion.toValue(javaVersion, undefined) : undefined;
+                if (javaVersion && version) {
+                    return { version: version, label: javaVersion };
+                }
+            }
+        } catch (error) {
+            console.error(AsadminError.getMessage(error));
+        }
+        return undefined;
+    }
+
+    private getVersionLabel(version: JDKVersion): string {
+        return [version.getMajor(), version.getMinor(), version.getSubMinor()]
+            .filter(part => part !== undefined)
+            .join('.');
+    }
+
+}
+
+interface JvmOptionStore {
+    list(): Promise<string[]>;
+    add(value: string): Promise<void>;
+    remove(value: string): Promise<void>;
+    replace(oldValue: string, newValue: string): Promise<void>;
+}
+
+interface JdkInfo {
+    version: JDKVersion;
+    label: string;
+    /** JDK home, known for local servers only. */
+    javaHome?: string;
+}
+
+interface JvmOptionItem extends QuickPickItem {
+    /** <jvm-options> value, including the JDK version prefix. */
+    value?: string;
+}
@@ -0,0 +1,309 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { QuickPickItem } from "vscode";
+import { PayaraLocalServerInstance } from "./PayaraLocalServerInstance";
+import { PayaraServerInstanceController } from "./PayaraServerInstanceController";
+import { LaunchProfile } from "./start/LaunchProfile";
+import { JDKVersion } from "./start/JDKVersion";
+
+/**
+ * Selects the launch profile a local server is started with, and edits the
+ * launch profiles of the server. The profiles are saved with the server
+ * configuration on each change.
+ */
+export class LaunchProfileController {
+
+    constructor(private controller: PayaraServerInstanceController) {
+    }
+
+    /**
+     * Starts the server with the launch profile and the mode selected.
+     */
+    public async startServer(payaraServer: PayaraLocalServerInstance): Promise<void> {
+        if (!payaraServer.isStopped()) {
+            vscode.window.showErrorMessage('Payara Server instance already running.');
+            return;
+        }
+        let current = payaraServer.getLaunchProfileName();
+        let defaultProfile: ProfileItem = {
+            label: 'Default',
+            description: current === undefined ? 'current' : undefined,
+            detail: 'domain.xml options only'
+        };
+        let editProfiles: ProfileItem = { label: '$(edit) Edit launch profiles...' };
+        let items: ProfileItem[] = payaraServer.getLaunchProfiles().map(profile => ({
+            label: profile.name,
+            description: profile.name === current ? 'current' : undefined,
+            detail: this.getSummary(profile),
+            profile: profile
+        }));
+        let pick = await vscode.window.showQuickPick([defaultProfile, ...items, editProfiles], {
+            placeHolder: `Start ${payaraServer.getName()} with the launch profile`
+        });
+        if (!pick) {
+            return;
+        } else if (pick === editProfiles) {
+            this.editProfiles(payaraServer);
+            return;
+        }
+        let run = 'Run';
+        let debug = 'Debug';
+        let mode = await vscode.window.showQuickPick([run, debug], {
+            placeHolder: `Start ${payaraServer.getName()} in`
+        });
+        if (!mode) {
+            return;
+        }
+        payaraServer.setLaunchProfileName(pick.profile ? pick.profile.name : undefined);
+        this.controller.updateConfig();
+        if (pick.profile) {
+            payaraServer.getOutputChannel().appendLine(`Starting ${payaraServer.getName()} with the launch profile ${pick.profile.name}.`);
+        }
+        let debugPort: string = '';
+        let activeEditor = vscode.window.activeTextEditor;
+        if (mode === debug && activeEditor) {
+            debugPort = this.controller.readDebugPortFromWorkspace(activeEditor.document.uri);
+        }
+        this.controller.startServer(payaraServer, mode === debug, debugPort);
+    }
+
+    public async editProfiles(payaraServer: PayaraLocalServerInstance): Promise<void> {
+        let addProfile: ProfileItem = { label: '$(add) Add launch profile...' };
+        let items: ProfileItem[] = payaraServer.getLaunchProfiles().map(profile => ({
+            label: profile.name,
+            description: profile.name === payaraServer.getLaunchProfileName() ? 'current' : undefined,
+            detail: this.getSummary(profile),
+            profile: profile
+        }));
+        let pick = await vscode.window.showQuickPick([addProfile, ...items], {
+            placeHolder: `Launch profiles of ${payaraServer.getName()}, select a profile to edit it`
+        });
+        if (!pick) {
+            return;
+        }
+        let profile = pick.profile;
+        if (!profile) {
+            let name = await this.inputName(payaraServer);
+            if (!name) {
+                return;
+            }
+            profile = { name: name };
+            this.saveProfiles(payaraServer, [...payaraServer.getLaunchProfiles(), profile]);
+        }
+        this.editProfile(payaraServer, profile);
+    }
+
+    private async editProfile(payaraServer: PayaraLocalServerInstance, profile: LaunchProfile): Promise<void> {
+        let items: OptionItem[] = [
+            { label: 'JVM options', description: this.describe(profile.jvmOptions), option: 'jvmOptions' },
+            { label: 'System properties', description: this.describe(profile.systemProperties), option: 'systemProperties' },
+            { label: 'Environment variables', description: this.describe(profile.env), option: 'env' },
+            { label: 'Suspend on debug', description: profile.debugSuspend ? 'on' : 'off', option: 'debugSuspend' },
+            { label: 'JDK Home', description: profile.jdkHome ? profile.jdkHome : '(server JDK Home)', option: 'jdkHome' },
+            { label: 'Rename', option: 'name' },
+            { label: 'Delete', option: 'delete' }
+        ];
+        let pick = await vscode.window.showQuickPick(items, {
+            placeHolder: `Launch profile ${profile.name} of ${payaraServer.getName()}, select an option to change it`
+        });
+        if (!pick) {
+            return;
+        }
+        let updated: LaunchProfile | undefined = { ...profile };
+        let changed: boolean;
+        switch (pick.option) {
+            case 'jvmOptions':
+                changed = await this.editJvmOptions(updated);
+                break;
+            case 'systemProperties':
+            case 'env':
+                changed = await this.editMap(updated, pick.option);
+                break;
+            case 'debugSuspend':
+                updated.debugSuspend = updated.debugSuspend ? undefined : true;
+                changed = true;
+                break;
+            case 'jdkHome':
+                changed = await this.editJdkHome(updated);
+                break;
+            case 'name':
+                let name = await this.inputName(payaraServer, profile.name);
+                changed = name !== undefined && name !== profile.name;
+                if (name) {
+                    updated.name = name;
+                }
+                break;
+            default:
+                changed = true;
+                updated = undefined;
+        }
+        if (!changed) {
+            return;
+        }
+        let profiles = payaraServer.getLaunchProfiles()
+            .map(candidate => candidate.name === profile.name ? updated : candidate)
+            .filter(candidate => candidate !== undefined) as LaunchProfile[];
+        if (updated && profile.name === payaraServer.getLaunchProfileName()) {
+            payaraServer.setLaunchProfileName(updated.name);
+        }
+        this.saveProfiles(payaraServer, profiles);
+        if (updated) {
+            this.editProfile(payaraServer, updated);
+        } else {
+            this.editProfiles(payaraServer);
+        }
+    }
+
+    private async editJvmOptions(profile: LaunchProfile): Promise<boolean> {
+        let value = await vscode.window.showInputBox({
+            prompt: 'Enter the space separated JVM options e.g -Xmx2g -XX:+UseZGC',
+            value: profile.jvmOptions ? profile.jvmOptions.join(' ') : ''
+        });
+        if (value === undefined) {
+            return false;
+        }
+        let jvmOptions = value.split(/\s+/).filter(option => option.length > 0);
+        profile.jvmOptions = jvmOptions.length > 0 ? jvmOptions : undefined;
+        return true;
+    }
+
+    private async editMap(profile: LaunchProfile, option: 'systemProperties' | 'env'): Promise<boolean> {
+        let entries = { ...profile[option] };
+        let kind = option === 'env' ? 'environment variable' : 'system property';
+        let addEntry: EntryItem = { label: `$(add) Add ${kind}...` };
+        let items: EntryItem[] = Object.keys(entries).map(name => ({
+            label: name,
+            description: entries[name],
+            name: name
+        }));
+        let pick = await vscode.window.showQuickPick([addEntry, ...items], {
+            placeHolder: `Select a ${kind} to edit or remove it`
+        });
+        if (!pick) {
+            return false;
+        }
+        let value = await vscode.window.showInputBox({
+            prompt: `Enter the ${kind} as name=value, leave empty to remove it`,
+            value: pick.name ? `${pick.name}=${entries[pick.name]}` : '',
+            validateInput: value => value.trim() && value.indexOf('=') < 1 ? `The ${kind} must be given as name=value.` : undefined
+        });
+        if (value === undefined || (!value.trim() && !pick.name)) {
+            return false;
+        }
+        if (pick.name) {
+            delete entries[pick.name];
+        }
+        if (value.trim()) {
+            let separator = value.indexOf('=');
+            entries[value.substring(0, separator).trim()] = value.substring(separator + 1).trim();
+        }
+        profile[option] = Object.keys(entries).length > 0 ? entries : undefined;
+        return true;
+    }
+
+    private async editJdkHome(profile: LaunchProfile): Promise<boolean> {
+        let value = await vscode.window.showInputBox({
+            prompt: 'Enter the JDK Home the server is started with, leave empty to use the server JDK Home',
+            value: profile.jdkHome || '',
+            validateInput: value => {
+                if (!value.trim()) {
+                    return undefined;
+                }
+                try {
+                    return JDKVersion.getJDKVersion(value.trim()) ? undefined : 'Invalid JDK Home path.';
+                } catch (error) {
+                    return 'Invalid JDK Home path.';
+                }
+            }
+        });
+        if (value === undefined || value.trim() === (profile.jdkHome || '')) {
+            return false;
+        }
+        profile.jdkHome = value.trim() ? value.trim() : undefined;
+        return true;
+    }
+
+    private async inputName(payaraServer: PayaraLocalServerInstance, name?: string): Promise<string | undefined> {
+        let value = await vscode.window.showInputBox({
+            prompt: 'Enter a unique name for the launch profile',
+            value: name,
+            validateInput: value => {
+                if (!value.trim()) {
+                    return 'Launch profile name must not be empty.';
+                }
+                if (value.trim() !== name && payaraServer.getLaunchProfiles().some(profile => profile.name === value.trim())) {
+                    return `Launch profile ${value.trim()} already exists.`;
+                }
+                return undefined;
+            }
+        });
+        return value ? value.trim() : undefined;
+    }
+
+    private saveProfiles(payaraServer: PayaraLocalServerInstance, profiles: LaunchProfile[]): void {
+        payaraServer.setLaunchProfiles(profiles);
+        this.controller.updateConfig();
+        vscode.commands.executeCommand('payara.server.refresh');
+    }
+
+    private getSummary(profile: LaunchProfile): string {
+        let summary: string[] = [];
+        if (profile.jvmOptions) {
+            summary.push(profile.jvmOptions.join(' '));
+        }
+        let systemProperties = profile.systemProperties || {};
+        summary.push(...Object.keys(systemProperties).map(name => `-D${name}=${systemProperties[name]}`));
+        if (profile.env) {
+            summary.push(`${Object.keys(profile.env).length} environment variable(s)`);
+        }
+        if (profile.debugSuspend) {
+            summary.push('suspend on debug');
+        }
+        if (profile.jdkHome) {
+            summary.push(`JDK ${profile.jdkHome}`);
+        }
+        return summary.length > 0 ? summary.join(', ') : 'no option';
+    }
+
+    private describe(value: string[] | { [name: string]: string } | undefined): string {
+        if (!value) {
+            return 'none';
+        }
+        return Array.isArray(value)
+            ? value.join(' ')
+            : Object.keys(value).map(name => `${name}=${value[name]}`).join(', ');
+    }
+
+}
+
+interface ProfileItem extends QuickPickItem {
+    /** Selected launch profile, unset for the domain.xml only. */
+    profile?: LaunchProfile;
+}
+
+interface OptionItem extends QuickPickItem {
+    option: keyof LaunchProfile | 'delete';
+}
+
+interface EntryItem extends QuickPickItem {
+    /** Name of the edited entry, unset to add one. */
+    name?: string;
+}
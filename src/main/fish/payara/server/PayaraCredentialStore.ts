@@ -0,0 +1,108 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { ServerUtils } from "./tooling/utils/ServerUtils";
+
+/**
+ * Keeps the admin passwords of the registered Payara Servers in the VS Code
+ * SecretStorage. Passwords are cached in memory once loaded, so that the
+ * synchronous callers (e.g. AsadminClient) can read them without waiting on
+ * the secret storage.
+ */
+export class PayaraCredentialStore {
+
+    private static KEY_PREFIX: string = 'payara.server.password:';
+
+    private static instance: PayaraCredentialStore;
+
+    private passwords: Map<string, string> = new Map<string, string>();
+
+    private constructor(private secrets: vscode.SecretStorage) {
+    }
+
+    public static initialize(secrets: vscode.SecretStorage): PayaraCredentialStore {
+        PayaraCredentialStore.instance = new PayaraCredentialStore(secrets);
+        return PayaraCredentialStore.instance;
+    }
+
+    public static getInstance(): PayaraCredentialStore {
+        if (!PayaraCredentialStore.instance) {
+            throw new Error("Payara credential store is not initialized.");
+        }
+        return PayaraCredentialStore.instance;
+    }
+
+    /**
+     * Reads the passwords of the given servers from the secret storage into
+     * the in-memory cache.
+     *
+     * @param serverNames names of the registered servers.
+     */
+    public async load(serverNames: string[]): Promise<void> {
+        for (let serverName of serverNames) {
+            let password = await this.secrets.get(this.getKey(serverName));
+            if (password !== undefined) {
+                this.passwords.set(serverName, password);
+            }
+        }
+    }
+
+    /**
+     * @returns true if the password of the server is in the secret storage.
+     */
+    public hasPassword(serverName: string): boolean {
+        return this.passwords.has(serverName);
+    }
+
+    public getPassword(serverName: string): string {
+        let password = this.passwords.get(serverName);
+        return password !== undefined ? password : ServerUtils.DEFAULT_PASSWORD;
+    }
+
+    public async setPassword(serverName: string, password: string): Promise<void> {
+        this.passwords.set(serverName, password);
+        await this.secrets.store(this.getKey(serverName), password);
+    }
+
+    public async deletePassword(serverName: string): Promise<void> {
+        this.passwords.delete(serverName);
+        try {
+            await this.secrets.delete(this.getKey(serverName));
+        } catch (error) {
+            console.error(error);
+        }
+    }
+
+    public async renamePassword(oldServerName: string, newServerName: string): Promise<void> {
+        if (oldServerName === newServerName) {
+            return;
+        }
+        if (this.passwords.has(oldServerName)) {
+            let password = this.getPassword(oldServerName);
+            await this.setPassword(newServerName, password);
+        }
+        await this.deletePassword(oldServerName);
+    }
+
+    private getKey(serverName: string): string {
+        return PayaraCredentialStore.KEY_PREFIX + serverName;
+    }
+
+}
@@ -27,6 +27,7 @@ import { PayaraServerInstance } from "./PayaraServerInstance";
 import { ServerUtils } from "./tooling/utils/ServerUtils";
 import { PayaraLocalServerInstance } from "./PayaraLocalServerInstance";
 import { PayaraRemoteServerInstance } from "./PayaraRemoteServerInstance";
+import { PayaraCredentialStore } from "./PayaraCredentialStore";
 
 export class PayaraInstanceProvider {
 
@@ -34,15 +35,21 @@ export class PayaraInstanceProvider {
     private unlistedServers: PayaraLocalServerInstance[] = [];
     private serversConfig: string;
     private unlistedServersConfig: string;
+    private credentialStore: PayaraCredentialStore;
+    /** Plaintext passwords of servers.json which could not be moved to the secret storage. */
+    private pendingPasswords: Map<PayaraServerInstance, string> = new Map<PayaraServerInstance, string>();
 
     constructor(public context: vscode.ExtensionContext) {
         this.serversConfig = this.getServersConfig(context);
         this.unlistedServersConfig = this.getUnlistedServersConfig(context);
+        this.credentialStore = PayaraCredentialStore.initialize(context.secrets);
     }
 
     async loadServerConfigs(): Promise<void> {
-        this
-            .readServerConfig()
+        let serverConfigs: any[] = this.readServerConfig();
+        await this.credentialStore.load(serverConfigs.map(instance => instance.name));
+        let migratedServers = await this.migratePasswords(serverConfigs);
+        serverConfigs
             .forEach((instance: any) => {
                 let payaraServer: PayaraServerInstance
                     = instance.type === 'local' ?
@@ -55,16 +62,20 @@ export class PayaraInstanceProvider {
                         if (instance.deployOption) {
                             payaraServer.setDeployOption(instance.deployOption);
                         }
+                if (instance.deployTarget) {
+                    payaraServer.setDeployTarget(instance.deployTarget);
+                }
                 if (instance.username) {
                     payaraServer.setUsername(instance.username);
                 }
-                if (instance.password) {
-                    payaraServer.setPassword(instance.password);
-                }
                 if (payaraServer instanceof PayaraLocalServerInstance) {
                     if (instance.jdkHome) {
                         payaraServer.setJDKHome(instance.jdkHome);
                     }
+                    if (instance.launchProfiles) {
+                        payaraServer.setLaunchProfiles(instance.launchProfiles);
+                        payaraServer.setLaunchProfileName(instance.launchProfile);
+                    }
                     payaraServer.checkAliveStatusUsingJPS(() => {
                         payaraServer.connectOutput();
                         payaraServer.setStarted(true);
@@ -78,6 +89,7 @@ export class PayaraInstanceProvider {
                     payaraServer.setHost(instance.host ? instance.host.trim() : ServerUtils.DEFAULT_HOST);
                     payaraServer.setAdminPort(instance.adminPort ? instance.adminPort : ServerUtils.DEFAULT_ADMIN_PORT);
                     payaraServer.setHttpPort(instance.httpPort ? instance.httpPort : ServerUtils.DEFAULT_HTTP_PORT);
+                    payaraServer.setDebugPort(instance.debugPort);
                     if (payaraServer.isConnectionAllowed()) {
                         payaraServer.checkAliveStatusUsingRest(ServerUtils.DEFAULT_RETRY_COUNT,
                             async () => {
@@ -93,8 +105,16 @@ export class PayaraInstanceProvider {
                         );
                     }
                 }
+                if (instance.password !== undefined) {
+                    this.pendingPasswords.set(payaraServer, instance.password);
+                }
                 this.addServer(payaraServer);
             });
+        if (migratedServers.length > 0) {
+            // scrub the migrated passwords from servers.json, the passwords
+            // which could not be moved are kept for the next activation
+            await this.updateServerConfig();
+        }
 
         this.readUnlistedServerConfig()
             .forEach((instance: any) => {
@@ -106,6 +126,48 @@ export class PayaraInstanceProvider {
             });
     }
 
+    /**
+     * Moves the plaintext admin passwords persisted by earlier versions in
+     * servers.json to the secret storage. The caller is responsible for
+     * rewriting servers.json once the servers are loaded.
+     *
+     * The password of a server is removed from its config only once moved.
+     *
+     * @returns the names of the servers whose password was moved.
+     */
+    private async migratePasswords(serverConfigs: any[]): Promise<string[]> {
+        let migrated: string[] = [];
+        for (let instance of serverConfigs) {
+            if (instance.password !== undefined) {
+                try {
+                    // a password saved since a failed move is more recent
+                    if (!_.isEmpty(instance.password) && !this.credentialStore.hasPassword(instance.name)) {
+                        await this.credentialStore.setPassword(instance.name, instance.password);
+                    }
+                    delete instance.password;
+                    migrated.push(instance.name);
+                } catch (error) {
+                    console.error(`Unable to move the password of ${instance.name} to the secret storage`, error);
+                }
+            }
+        }
+        return migrated;
+    }
+
+    public getCredentialStore(): PayaraCredentialStore {
+        return this.credentialStore;
+    }
+
+    /**
+     * Stores the admin password of a server in the secret storage, the
+     * password of servers.json which could not be moved is then dropped on
+     * the next update of servers.json.
+     */
+    public async setPassword(payaraServer: PayaraServerInstance, password: string): Promise<void> {
+        await this.credentialStore.setPassword(payaraServer.getName(), password);
+        this.pendingPasswords.delete(payaraServer);
+    }
+
     public getServers(): PayaraServerInstance[] {
         return this.servers;
     }
@@ -186,11 +248,50 @@ export class PayaraInstanceProvider {
         return false;
     }
 
+    /**
+     * Lists the installation of a domain created outside of the register
+     * wizard, unless the installation is already listed.
+     */
+    public addUnlistedServer(payaraServer: PayaraLocalServerInstance): void {
+        let listed = this.servers.some(server => server instanceof PayaraLocalServerInstance
+            && server.getPath() === payaraServer.getPath());
+        let unlisted = this.unlistedServers.some(server => server.getPath() === payaraServer.getPath());
+        if (!listed && !unlisted) {
+            this.unlistedServers.push(payaraServer);
+            this.updateUnlistedServerConfig();
+        }
+    }
+
+    /**
+     * Updates the unlisted installation entry of a deleted domain, the entry
+     * is moved to another domain of the installation or removed if none is
+     * left.
+     */
+    public removeUnlistedDomain(serverPath: string, domainName: string, remainingDomainName?: string): boolean {
+        const index: number = this.unlistedServers.findIndex(
+            server => server.getPath() === serverPath && server.getDomainName() === domainName
+        );
+        if (index > -1) {
+            let server = this.unlistedServers[index];
+            if (remainingDomainName) {
+                this.unlistedServers.splice(index, 1, new PayaraLocalServerInstance(
+                    server.getName(), remainingDomainName, serverPath
+                ));
+            } else {
+                this.unlistedServers.splice(index, 1);
+            }
+            this.updateUnlistedServerConfig();
+            return true;
+        }
+        return false;
+    }
+
     private removeServerFromListed(payaraServer: PayaraServerInstance): boolean {
         const index: number = this.servers.findIndex(
             server => server.getName() === payaraServer.getName()
         );
         if (index > -1) {
+            this.pendingPasswords.delete(this.servers[index]);
             this.servers.splice(index, 1);
             return true;
         }
@@ -212,7 +313,13 @@ export class PayaraInstanceProvider {
         try {
             await fse.outputJson(
                 this.serversConfig,
-                this.servers.map(instance => instance.getConfigData())
+                this.servers.map(instance => {
+                    let config = instance.getConfigData();
+                    if (this.pendingPasswords.has(instance)) {
+                        config.password = this.pendingPasswords.get(instance);
+                    }
+                    return config;
+                })
             );
         } catch (error) {
             console.error(error);
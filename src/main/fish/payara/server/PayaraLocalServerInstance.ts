@@ -22,17 +22,29 @@ import * as path from "path";
 import * as fs from "fs";
 import * as fse from "fs-extra";
 import * as cp from 'child_process';
+import { ChildProcess } from 'child_process';
 import { PortReader } from "./start/PortReader";
 import { JavaUtils } from "./tooling/utils/JavaUtils";
 import { ServerUtils } from "./tooling/utils/ServerUtils";
-import { ChildProcess } from "child_process";
 import { PayaraServerInstance } from "./PayaraServerInstance";
+import { LogFileFollower } from "./log/LogFileFollower";
+import { LaunchProfile } from "./start/LaunchProfile";
 
 export class PayaraLocalServerInstance extends PayaraServerInstance {
 
     private portReader: PortReader | null = null;
 
-    private logStream: ChildProcess | null = null;
+    private logFollower: LogFileFollower | undefined;
+
+    private process: ChildProcess | undefined;
+
+    private launchProfiles: LaunchProfile[] = [];
+
+    /** Name of the launch profile used on start, the domain.xml only if unset. */
+    private launchProfileName: string | undefined;
+
+    /** Name of the launch profile the running process was started with. */
+    private runningLaunchProfileName: string | undefined;
 
     constructor(name: string, domainName: string, private path: string) {
         super(name, domainName);
@@ -108,10 +120,56 @@ export class PayaraLocalServerInstance extends PayaraServerInstance {
         return this.portReader.getAdminPort();
     }
 
+    /**
+     * Re-reads the ports from the domain.xml on next access.
+     */
+    public reloadPorts(): void {
+        this.portReader = null;
+    }
+
     private createPortReader(): PortReader {
         return new PortReader(this.getDomainXmlPath(), ServerUtils.DAS_NAME);
     }
 
+    public getLaunchProfiles(): LaunchProfile[] {
+        return this.launchProfiles;
+    }
+
+    public setLaunchProfiles(launchProfiles: LaunchProfile[]): void {
+        this.launchProfiles = launchProfiles;
+        if (!this.getLaunchProfile()) {
+            this.launchProfileName = undefined;
+        }
+    }
+
+    public getLaunchProfileName(): string | undefined {
+        return this.launchProfileName;
+    }
+
+    public setLaunchProfileName(launchProfileName: string | undefined): void {
+        this.launchProfileName = launchProfileName;
+    }
+
+    /**
+     * @returns the launch profile the server was started with by the
+     * extension, undefined if started with the domain.xml only or outside
+     * VS Code.
+     */
+    public getRunningLaunchProfileName(): string | undefined {
+        return this.runningLaunchProfileName;
+    }
+
+    public setRunningLaunchProfileName(launchProfileName: string | undefined): void {
+        this.runningLaunchProfileName = launchProfileName;
+    }
+
+    /**
+     * @returns the launch profile used on start, if any.
+     */
+    public getLaunchProfile(): LaunchProfile | undefined {
+        return this.launchProfiles.find(profile => profile.name === this.launchProfileName);
+    }
+
     public checkAliveStatusUsingJPS(callback: () => any): void {
         let javaHome: string | undefined = this.getJDKHome();
         if (!javaHome) {
@@ -124,17 +182,140 @@ export class PayaraLocalServerInstance extends PayaraServerInstance {
         }
 
         let output: string = cp.execFileSync(javaProcessExe, ['-m', '-l', '-v']).toString();
-        let lines: string[] = output.toString().split(/(?:\r\n|\r|\n)/g);
+        if (this.findDomainProcessId(output) !== undefined) {
+            callback();
+        }
+    }
+
+    /**
+     * Looks up the domain process without blocking the extension host.
+     *
+     * @returns true if the domain process is running, undefined if the Java
+     *          Process executable is not available.
+     */
+    public async isProcessAlive(): Promise<boolean | undefined> {
+        let output = await this.listJavaProcesses();
+        return output !== undefined ? this.findDomainProcessId(output) !== undefined : undefined;
+    }
+
+    /**
+     * @returns the PID of the domain process, either spawned by startServer
+     *          or found with the Java Process tool.
+     */
+    public async getProcessId(): Promise<number | undefined> {
+        if (this.process && this.process.pid && this.process.exitCode === null) {
+            return this.process.pid;
+        }
+        let output = await this.listJavaProcesses();
+        return output !== undefined ? this.findDomainProcessId(output) : undefined;
+    }
+
+    /**
+     * Keeps the JVM spawned by startServer, until it exits.
+     */
+    public setProcess(process: ChildProcess): void {
+        this.process = process;
+        process.on('exit', () => {
+            if (this.process === process) {
+                this.process = undefined;
+            }
+        });
+    }
+
+    public getProcess(): ChildProcess | undefined {
+        return this.process;
+    }
+
+    /**
+     * Waits for the domain process to exit.
+     *
+     * @param timeout time in milliseconds to wait.
+     * @returns true if the process exited within the timeout.
+     */
+    public async waitForExit(timeout: number): Promise<boolean> {
+        let deadline = Date.now() + timeout;
+        const child = this.process;
+        if (child) {
+            let exited = await new Promise<boolean>(resolve => {
+                let timer = setTimeout(() => resolve(false), timeout);
+                child.once('exit', () => {
+                    clearTimeout(timer);
+                    resolve(true);
+                });
+            });
+            if (!exited) {
+                return false;
+            }
+        }
+        // the domain may be started outside VS Code
+        while (await this.isProcessAlive()) {
+            if (Date.now() >= deadline) {
+                return false;
+            }
+            await new Promise(res => setTimeout(res, 1000));
+        }
+        return true;
+    }
+
+    /**
+     * Kills the domain process without shutting down the server.
+     *
+     * @returns false if no domain process is running.
+     */
+    public async killProcess(): Promise<boolean> {
+        if (this.process && this.process.exitCode === null) {
+            return this.process.kill('SIGKILL');
+        }
+        let pid = await this.getProcessId();
+        if (pid === undefined) {
+            return false;
+        }
+        process.kill(pid, 'SIGKILL');
+        return true;
+    }
+
+    private listJavaProcesses(): Promise<string | undefined> {
+        let javaProcessExe = this.getJavaProcessExecutable();
+        return javaProcessExe ? PayaraLocalServerInstance.listJavaProcesses(javaProcessExe) : Promise.resolve(undefined);
+    }
+
+    /**
+     * @returns the Java Process executable of the JDK of the server, undefined
+     *          if the JDK is not known.
+     */
+    public getJavaProcessExecutable(): string | undefined {
+        let javaHome: string | undefined = this.getJDKHome();
+        return javaHome ? JavaUtils.javaProcessExecutableFullPath(javaHome) : undefined;
+    }
+
+    /**
+     * @returns the output of <code>jps -m -l -v</code>, undefined if the Java
+     *          Process executable failed.
+     */
+    public static listJavaProcesses(javaProcessExe: string): Promise<string | undefined> {
+        return new Promise<string | undefined>(resolve => {
+            cp.execFile(javaProcessExe, ['-m', '-l', '-v'], (error, stdout) => {
+                resolve(error ? undefined : stdout.toString());
+            });
+        });
+    }
+
+    /**
+     * @param output output of <code>jps -m -l -v</code>.
+     * @returns the PID of the domain process listed in the output.
+     */
+    public findDomainProcessId(output: string): number | undefined {
+        let lines: string[] = output.split(/(?:\r\n|\r|\n)/g);
         for (let line of lines) {
             let result: string[] = line.split(" ");
             if (result.length >= 6
                 && result[1] === ServerUtils.PF_MAIN_CLASS
                 && result[3] === this.getDomainName()
                 && result[5] === this.getDomainPath()) {
-                callback();
-                break;
+                return parseInt(result[0], 10);
             }
         }
+        return undefined;
     }
 
 
@@ -148,28 +329,19 @@ export class PayaraLocalServerInstance extends PayaraServerInstance {
     }
 
     public connectOutput(): void {
-        if (this.logStream === null && fs.existsSync(this.getServerLog())) {
-            if (JavaUtils.IS_WIN) {
-                this.logStream = cp.spawn('powershell.exe', ['Get-Content', '-Tail', '20', '-Wait', '-literalpath', this.getServerLog()]);
-            } else {
-                this.logStream = cp.spawn('tail ', ['-f', '-n', '20', this.getServerLog()]);
-            }
-            if (this.logStream.pid) {
-                this.getOutputChannel().show(false);
-                let logCallback = (data: string | Buffer): void => this.getOutputChannel().append(data.toString());
-                if (this.logStream.stdout !== null) {
-                    this.logStream.stdout.on('data', logCallback);
-                }
-                if (this.logStream.stderr !== null) {
-                    this.logStream.stderr.on('data', logCallback);
-                }
-            }
+        if (!this.logFollower) {
+            this.logFollower = new LogFileFollower(this.getServerLog());
+        }
+        if (!this.logFollower.isStarted()) {
+            this.getOutputChannel().show(false);
+            this.logFollower.start(text => this.getOutputChannel().append(text), 20)
+                .catch(error => console.error(`Unable to follow the log of ${this.getName()}`, error));
         }
     }
 
     public disconnectOutput(): void {
-        if (this.logStream !== null) {
-            this.logStream.kill();
+        if (this.logFollower) {
+            this.logFollower.stop();
         }
     }
 
@@ -180,9 +352,11 @@ export class PayaraLocalServerInstance extends PayaraServerInstance {
             path: this.getPath(),
             domainName: this.getDomainName(),
             username: this.getUsername(),
-            password: this.getPassword(),
             jdkHome: this.getJDKHome(),
-            deployOption: this.getDeployOption()
+            deployOption: this.getDeployOption(),
+            deployTarget: this.getDeployTarget(),
+            launchProfiles: this.launchProfiles.length > 0 ? this.launchProfiles : undefined,
+            launchProfile: this.launchProfileName
         };
     }
 
@@ -19,24 +19,30 @@
 
 import * as _ from "lodash";
 import * as path from "path";
-import { CronJob } from "cron";
 import { ServerUtils } from "./tooling/utils/ServerUtils";
-import { RestEndpoints } from "./endpoints/RestEndpoints";
-import { IncomingMessage } from "http";
+import { AsadminClient } from "./endpoints/AsadminClient";
+import { AsadminError } from "./endpoints/AsadminError";
+import { ViewLogReader } from "./endpoints/ViewLogReader";
 import { PayaraServerInstance } from "./PayaraServerInstance";
+import { RemoteLogStreamer } from "./log/RemoteLogStreamer";
 
 export class PayaraRemoteServerInstance extends PayaraServerInstance {
 
     private host: string = ServerUtils.DEFAULT_HOST;
     private adminPort: number = ServerUtils.DEFAULT_ADMIN_PORT;
     private httpPort: number = ServerUtils.DEFAULT_HTTP_PORT;
-    private logSequence: number = 0;
-    private target: string = 'server';
-    private job = new CronJob('*/3 * * * * *', () => this.showLog());
+    private logReader: ViewLogReader = new ViewLogReader(new AsadminClient(this));
+    private logStreamer: RemoteLogStreamer = new RemoteLogStreamer(
+        this.logReader,
+        this.getOutputChannel(),
+        () => this.isConnectionAllowed() && this.isStarted()
+    );
     private connectionAllowed: boolean = false;
     private instanceType: string;
     private hostPath: string;
     private containerPath: string;
+    /** Debug port reachable from VS Code, the mapped port of a Docker instance. */
+    private debugPort: number | undefined;
 
     constructor(name: string, domainName: string) {
         super(name, domainName);
@@ -61,7 +67,7 @@ export class PayaraRemoteServerInstance extends PayaraServerInstance {
     public setConnectionAllowed(connectionAllowed: boolean) {
         this.connectionAllowed = connectionAllowed;
         if(this.connectionAllowed) {
-            this.logSequence = 0;
+            this.logReader.reset();
             this.getOutputChannel().show(false);
         }
     }
@@ -98,6 +104,18 @@ export class PayaraRemoteServerInstance extends PayaraServerInstance {
         this.instanceType = instanceType;
     }
 
+    public isDocker(): boolean {
+        return this.instanceType === 'docker';
+    }
+
+    public getDebugPort(): number | undefined {
+        return this.debugPort;
+    }
+
+    public setDebugPort(debugPort: number | undefined) {
+        this.debugPort = debugPort;
+    }
+
     public getAdminPort(): number {
         return this.adminPort;
     }
@@ -115,34 +133,19 @@ export class PayaraRemoteServerInstance extends PayaraServerInstance {
     }
 
     public async showLog(): Promise<void> {
-        let payaraServer: PayaraRemoteServerInstance = this;
-        return new Promise(() => {
-            let endpoints: RestEndpoints = new RestEndpoints(payaraServer);
-            endpoints.invoke(`/management/domain/view-log?start=${payaraServer.logSequence}&instanceName=${payaraServer.target}`, async (res: IncomingMessage, report?: any) => {
-                if (res.statusCode === 200) {
-                    payaraServer.getOutputChannel().appendLine(report);
-                    let nextLogHeader: string = <string>res.headers['x-text-append-next'];
-                    if (nextLogHeader) {
-                        let start = new URLSearchParams(new URL(nextLogHeader).search).get("start");
-                        payaraServer.logSequence = start ? parseInt(start) : 0;
-                    }
-                }
-            }, async (res: IncomingMessage, message?: string) => {
-                console.log("Remote Payara Instance `/management/domain/view-log : " + message);
-            }, 'text/plain;charset=UTF-8');
-        });
+        try {
+            await this.logStreamer.read();
+        } catch (error) {
+            console.log("Remote Payara Instance `/management/domain/view-log : " + AsadminError.getMessage(error));
+        }
     }
 
     public connectOutput(): void {
-        if (!this.job.running) {
-            this.job.start();
-        }
+        this.logStreamer.start();
     }
 
     public disconnectOutput(): void {
-        if (this.job.running) {
-            this.job.stop();
-        }
+        this.logStreamer.stop();
     }
 
     public getConfigData(): any {
@@ -154,10 +157,11 @@ export class PayaraRemoteServerInstance extends PayaraServerInstance {
             adminPort: this.getAdminPort(),
             domainName: this.getDomainName(),
             username: this.getUsername(),
-            password: this.getPassword(),
             hostPath: this.getHostPath(),
             containerPath: this.getContainerPath(),
-            instanceType: this.getInstanceType()
+            instanceType: this.getInstanceType(),
+            debugPort: this.getDebugPort(),
+            deployTarget: this.getDeployTarget()
         };
     }
 
@@ -0,0 +1,178 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as fs from "fs";
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as tmp from "tmp";
+import * as yauzl from "yauzl";
+import { pipeline, Readable } from "stream";
+import { CancellationToken } from "vscode";
+import { MavenRepository } from "../common/MavenRepository";
+import { ServerUtils } from "./tooling/utils/ServerUtils";
+
+const GROUP_ID = 'fish.payara.distributions';
+const ARTIFACT_ID = 'payara';
+
+/**
+ * Downloads and extracts the Payara Server distribution from the configured
+ * Maven repository.
+ */
+export class PayaraServerDownloader {
+
+    constructor(private repository: MavenRepository = new MavenRepository()) {
+    }
+
+    public getRepositoryUrl(): string {
+        return this.repository.getUrl();
+    }
+
+    public getVersions(): Promise<string[]> {
+        return this.repository.getVersions(GROUP_ID, ARTIFACT_ID);
+    }
+
+    /**
+     * Downloads the distribution, verifies its checksum and extracts it to the
+     * target folder.
+     *
+     * @returns the path of the extracted Payara Server e.g
+     * <targetFolder>/payara6
+     */
+    public async install(
+        version: string, targetFolder: string,
+        progress: (message: string, increment?: number) => any,
+        token?: CancellationToken): Promise<string> {
+
+        let zipFile = tmp.tmpNameSync({ prefix: `payara-${version}-`, postfix: '.zip' });
+        try {
+            let reported = 0;
+            await this.repository.download(GROUP_ID, ARTIFACT_ID, version, 'zip', zipFile,
+                (downloaded, total) => {
+                    let megabytes = Math.round(downloaded / (1024 * 1024));
+                    if (total) {
+                        // download is reported as the first 90 percent
+                        let percentage = Math.floor(downloaded * 90 / total);
+                        progress(`${megabytes} MB of ${Math.round(total / (1024 * 1024))} MB`, percentage - reported);
+                        reported = percentage;
+                    } else {
+                        progress(`${megabytes} MB`);
+                    }
+                },
+                token
+            );
+            progress('Extracting...', 90 - reported);
+            return await this.extract(zipFile, targetFolder, token);
+        } finally {
+            await fse.remove(zipFile);
+        }
+    }
+
+    /**
+     * Streams the entries of the zip to the target folder, the extracted
+     * folders are removed if the extraction fails or is cancelled.
+     */
+    private async extract(zipFile: string, targetFolder: string, token?: CancellationToken): Promise<string> {
+        let zip = await PayaraServerDownloader.openZip(zipFile);
+        let roots = new Set<string>();
+        try {
+            let entries = await PayaraServerDownloader.readEntries(zip);
+            entries.forEach(entry => roots.add(entry.fileName.split('/')[0]));
+            for (let root of roots) {
+                if (await fse.pathExists(path.join(targetFolder, root))) {
+                    throw new Error(`${path.join(targetFolder, root)} already exists.`);
+                }
+            }
+            let target = path.resolve(targetFolder);
+            try {
+                for (let entry of entries) {
+                    if (token && token.isCancellationRequested) {
+                        throw new Error('Extraction cancelled.');
+                    }
+                    await this.extractEntry(zip, entry, target, zipFile);
+                }
+                for (let root of roots) {
+                    if (ServerUtils.isValidServerPath(path.join(target, root))) {
+                        return path.join(target, root);
+                    }
+                }
+                throw new Error(`Payara Server not found in ${zipFile}`);
+            } catch (error) {
+                for (let root of roots) {
+                    await fse.remove(path.join(target, root));
+                }
+                throw error;
+            }
+        } finally {
+            zip.close();
+        }
+    }
+
+    private async extractEntry(zip: yauzl.ZipFile, entry: yauzl.Entry, target: string, zipFile: string): Promise<void> {
+        let file = path.resolve(target, entry.fileName);
+        if (!file.startsWith(target + path.sep)) {
+            throw new Error(`Invalid entry ${entry.fileName} in ${zipFile}`);
+        }
+        if (entry.fileName.endsWith('/')) {
+            await fse.ensureDir(file);
+            return;
+        }
+        await fse.ensureDir(path.dirname(file));
+        let input = await new Promise<Readable>((resolve, reject) =>
+            zip.openReadStream(entry, (error, stream) => error ? reject(error) : resolve(stream)));
+        await new Promise<void>((resolve, reject) =>
+            pipeline(input, fs.createWriteStream(file), error => error ? reject(error) : resolve()));
+        // the unix permissions are in the high bytes of the attributes
+        let permissions = (entry.externalFileAttributes >>> 16) & 0o777;
+        if (permissions) {
+            await fse.chmod(file, permissions);
+        } else if (process.platform !== 'win32' && this.isScript(entry.fileName)) {
+            await fse.chmod(file, 0o755);
+        }
+    }
+
+    private static openZip(zipFile: string): Promise<yauzl.ZipFile> {
+        return new Promise<yauzl.ZipFile>((resolve, reject) =>
+            yauzl.open(zipFile, { lazyEntries: true, autoClose: false }, (error, zip) => error ? reject(error) : resolve(zip)));
+    }
+
+    /**
+     * @returns the entries of the central directory, without reading their
+     *          content.
+     */
+    private static readEntries(zip: yauzl.ZipFile): Promise<yauzl.Entry[]> {
+        return new Promise<yauzl.Entry[]>((resolve, reject) => {
+            let entries: yauzl.Entry[] = [];
+            zip.on('entry', (entry: yauzl.Entry) => {
+                entries.push(entry);
+                zip.readEntry();
+            });
+            zip.once('end', () => resolve(entries));
+            zip.once('error', reject);
+            zip.readEntry();
+        });
+    }
+
+    /**
+     * @returns true for the launcher scripts e.g payara6/bin/asadmin
+     */
+    private isScript(name: string): boolean {
+        return /\/bin\/[^/.]+$/.test(name) || name.endsWith('.sh');
+    }
+
+}
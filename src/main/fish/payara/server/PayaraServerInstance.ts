@@ -23,12 +23,13 @@ import * as path from "path";
 import { JDKVersion } from "./start/JDKVersion";
 import { ServerUtils } from "./tooling/utils/ServerUtils";
 import { ApplicationInstance } from "../project/ApplicationInstance";
-import { RestEndpoints } from "./endpoints/RestEndpoints";
-import { IncomingMessage } from "http";
+import { AsadminClient, Locations } from "./endpoints/AsadminClient";
+import { AsadminError } from "./endpoints/AsadminError";
 import { ProjectOutputWindowProvider } from "../project/ProjectOutputWindowProvider";
 import { PayaraInstance } from "../common/PayaraInstance";
 import { DeployOption } from "../common/DeployOption";
 import { Uri } from "vscode";
+import { PayaraCredentialStore } from "./PayaraCredentialStore";
 
 export abstract class PayaraServerInstance extends vscode.TreeItem implements vscode.QuickPickItem, PayaraInstance {
 
@@ -42,14 +43,17 @@ export abstract class PayaraServerInstance extends vscode.TreeItem implements vs
 
     private username: string = ServerUtils.DEFAULT_USERNAME;
 
-    private password: string = ServerUtils.DEFAULT_PASSWORD;
-
     private securityEnabled: boolean = false;
 
     private jdkHome: string | null = null;
 
     private deployOption: string = DeployOption.DEFAULT;
 
+    /**
+     * Instance, deployment group or cluster the applications are deployed to.
+     */
+    private deployTarget: string = ServerUtils.DAS_NAME;
+
     private outputChannel: vscode.OutputChannel;
 
     private applicationInstances: Array<ApplicationInstance> = new Array<ApplicationInstance>();
@@ -113,11 +117,13 @@ export abstract class PayaraServerInstance extends vscode.TreeItem implements vs
     }
 
     public getPassword(): string {
-        return this.password;
+        return PayaraCredentialStore.getInstance().getPassword(this.name);
     }
 
-    public setPassword(password: string) {
-        this.password = password;
+    public setPassword(password: string): Promise<void> {
+        return PayaraCredentialStore.getInstance()
+            .setPassword(this.name, password)
+            .catch(error => console.error(error));
     }
 
     public getJDKHome(): string | undefined {
@@ -139,6 +145,14 @@ export abstract class PayaraServerInstance extends vscode.TreeItem implements vs
         this.deployOption = deployOption;
     }
 
+    public getDeployTarget(): string {
+        return this.deployTarget;
+    }
+
+    public setDeployTarget(deployTarget: string) {
+        this.deployTarget = deployTarget;
+    }
+
     public isSecurityEnabled(): boolean {
         return this.securityEnabled;
     }
@@ -206,104 +220,81 @@ export abstract class PayaraServerInstance extends vscode.TreeItem implements vs
         failureCallback: (message?: string) => any,
         log?: boolean): Promise<void> {
 
-        let trycount = 0;
-        let endpoints: RestEndpoints = new RestEndpoints(this);
-        let successHttpCallback: (res: IncomingMessage, report?: any) => any;
-        let failureHttpCallback: (res: IncomingMessage, message?: string) => any;
-        let invoke = () => {
-            ++trycount;
+        let client: AsadminClient = new AsadminClient(this);
+        if (maxRetryCount >= ServerUtils.DEFAULT_RETRY_COUNT) {
+            await new Promise(res => setTimeout(res, ServerUtils.DEFAULT_WAIT));
+        }
+        let locations: Locations | undefined;
+        for (let trycount = 1; !locations; trycount++) {
             if (log) {
                 this.getOutputChannel().appendLine(`Connecting to ${this.getName()}[${this.getHost()}:${this.getAdminPort()}] ...`);
             }
-            let req = endpoints.invoke("__locations", successHttpCallback, failureHttpCallback);
-            req.on('error', async (err: any) => {
-                if (log) {
-                    let errorMessage = `Connection failure ${this.getName()}[${this.getHost()}:${this.getAdminPort()}]: ${err["code"]} [${err.message}]. Please check your network connectivity or firewall settings.`;
-                    this.getOutputChannel().appendLine(errorMessage);
-                    vscode.window.showErrorMessage(errorMessage);
+            try {
+                locations = await client.locations();
+            } catch (error) {
+                if (!(error instanceof AsadminError)) {
+                    failureCallback(AsadminError.getMessage(error));
+                    return;
                 }
-                if (err["code"] === 'ECONNREFUSED' || err["code"] === 'ECONNRESET') {
-                    await new Promise(res => setTimeout(res, ServerUtils.DEFAULT_WAIT));
-                    if (trycount < maxRetryCount) {
-                        invoke(); // try again
-                    } else {
-                        failureCallback(err.message);
-                    }
-                } else {
-                    failureCallback(err.message);
-                }
-            });
-        };
-        successHttpCallback = async (res: IncomingMessage, report?: any) => {
-
-            if (report['message-part']
-                && report['message-part'][0]?.property) {
-                let prop = report['message-part'][0].property;
-                let baseRoot;
-                let domainRoot;
-                for (const key in prop) {
-                    if (prop.hasOwnProperty(key)) {
-                        const element = prop[key];
-                        if (element.$.name === 'Base-Root') {
-                            baseRoot = element.$.value;
-                        } else if (element.$.name === 'Domain-Root') {
-                            domainRoot = element.$.value;
-                        }
-                    }
-                }
-                if (log) {
-                    this.getOutputChannel().appendLine(`Reply from ${this.getName()}[${this.getHost()}:${this.getAdminPort()}]`);
-                    this.getOutputChannel().appendLine(`${this.getName()}[${this.getHost()}] Base-Root: ${baseRoot}`);
-                    this.getOutputChannel().appendLine(`${this.getName()}[${this.getHost()}] Domain-Root: ${domainRoot}`);
+                if (error.statusCode === 200) { // https://payara.atlassian.net/browse/APPSERV-52
+                    successCallback();
+                    return;
                 }
-                if (this.isMatchingLocation(baseRoot, domainRoot)) {
-                    if (!this.getVersionLabel() && res.headers['server']) {
-                        this.setVersionLabel(<string>res.headers['server']);
+                if (error.statusCode === undefined) {
+                    if (log) {
+                        let errorMessage = `Connection failure ${this.getName()}[${this.getHost()}:${this.getAdminPort()}]: ${error.code} [${error.message}]. Please check your network connectivity or firewall settings.`;
+                        this.getOutputChannel().appendLine(errorMessage);
+                        vscode.window.showErrorMessage(errorMessage);
                     }
-                    if (!this.getVersionLabel()) {
-                        endpoints.invoke("version",
-                            (res, report) => {
-                                if (report['message-part']
-                                    && report['message-part'][0]?.$?.message) {
-                                    this.setVersionLabel(report['message-part'][0].$.message);
-                                    if (log) {
-                                        let message = `Successfully connected to ${this.getName()}[${this.getHost()}:${this.getAdminPort()}] ${this.getVersionLabel()}`;
-                                        this.getOutputChannel().appendLine(message);
-                                        vscode.window.showInformationMessage(message);
-                                    }
-                                }
-                            },
-                            (res, message) => {
-                                console.log(`Unable to fetch the version detail from ${this.getName()}[${this.getHost()}]`);
-                            }
-                        );
-                    } else if (log) {
-                        let message = `Successfully connected to ${this.getName()}[${this.getHost()}:${this.getAdminPort()}] ${this.getVersionLabel()}`;
-                        this.getOutputChannel().appendLine(message);
-                        vscode.window.showInformationMessage(message);
+                    if (!error.isConnectionFailure()) {
+                        failureCallback(error.message);
+                        return;
                     }
-                    successCallback();
-                } else if (log) {
-                    this.getOutputChannel().appendLine(`Connection terminated as domain name [${this.getDomainName()}] not matched with ${this.getName()}[${path.basename(domainRoot)}]`);
                 }
-            }
-        };
-        failureHttpCallback = async (res: IncomingMessage, message?: string) => {
-            if (res.statusCode === 200) { // https://payara.atlassian.net/browse/APPSERV-52
-                successCallback();
-            } else {
                 await new Promise(res => setTimeout(res, ServerUtils.DEFAULT_WAIT));
-                if (trycount < maxRetryCount) {
-                    invoke(); // try again
-                } else {
-                    failureCallback(message);
+                if (trycount >= maxRetryCount) {
+                    failureCallback(error.message);
+                    return;
                 }
             }
-        };
-        if (maxRetryCount >= ServerUtils.DEFAULT_RETRY_COUNT) {
-            await new Promise(res => setTimeout(res, ServerUtils.DEFAULT_WAIT));
         }
-        invoke();
+
+        let baseRoot = locations.baseRoot;
+        let domainRoot = locations.domainRoot;
+        if (!baseRoot || !domainRoot) {
+            return;
+        }
+        if (log) {
+            this.getOutputChannel().appendLine(`Reply from ${this.getName()}[${this.getHost()}:${this.getAdminPort()}]`);
+            this.getOutputChannel().appendLine(`${this.getName()}[${this.getHost()}] Base-Root: ${baseRoot}`);
+            this.getOutputChannel().appendLine(`${this.getName()}[${this.getHost()}] Domain-Root: ${domainRoot}`);
+        }
+        if (this.isMatchingLocation(baseRoot, domainRoot)) {
+            if (!this.getVersionLabel() && locations.server) {
+                this.setVersionLabel(locations.server);
+            }
+            if (!this.getVersionLabel()) {
+                client.version()
+                    .then(version => {
+                        if (version) {
+                            this.setVersionLabel(version);
+                            if (log) {
+                                let message = `Successfully connected to ${this.getName()}[${this.getHost()}:${this.getAdminPort()}] ${this.getVersionLabel()}`;
+                                this.getOutputChannel().appendLine(message);
+                                vscode.window.showInformationMessage(message);
+                            }
+                        }
+                    })
+                    .catch(error => console.log(`Unable to fetch the version detail from ${this.getName()}[${this.getHost()}]`));
+            } else if (log) {
+                let message = `Successfully connected to ${this.getName()}[${this.getHost()}:${this.getAdminPort()}] ${this.getVersionLabel()}`;
+                this.getOutputChannel().appendLine(message);
+                vscode.window.showInformationMessage(message);
+            }
+            successCallback();
+        } else if (log) {
+            this.getOutputChannel().appendLine(`Connection terminated as domain name [${this.getDomainName()}] not matched with ${this.getName()}[${path.basename(domainRoot)}]`);
+        }
     }
 
     public addApplication(application: ApplicationInstance): void {
@@ -321,28 +312,17 @@ export abstract class PayaraServerInstance extends vscode.TreeItem implements vs
         return this.applicationInstances;
     }
 
-    public reloadApplications() {
-        let payaraServer = this;
-        let applicationInstances = new Array<ApplicationInstance>();
-        let endpoints: RestEndpoints = new RestEndpoints(this);
-        endpoints.invoke("list-applications", async (response, report) => {
-            if (response.statusCode === 200) {
-                let message = report['message-part'][0];
-                if (message && message.property && Symbol.iterator in Object(message.property)) {
-                    for (let property of message.property) {
-                        if (property.$.name) {
-                            applicationInstances.push(
-                                new ApplicationInstance(payaraServer, property.$.name, property.$.value)
-                            );
-                        }
-                    }
-                    payaraServer.applicationInstances = applicationInstances;
-                    vscode.commands.executeCommand('payara.server.refresh');
-                } else {
-                    console.log('exiting applications not found ' + message.property);
-                }
-            }
-        });
+    public async reloadApplications(): Promise<void> {
+        let client: AsadminClient = new AsadminClient(this);
+        try {
+            let applications = await client.listApplications(this.getDeployTarget());
+            this.applicationInstances = applications.map(
+                application => new ApplicationInstance(this, application.name, application.type)
+            );
+            vscode.commands.executeCommand('payara.server.refresh');
+        } catch (error) {
+            console.log(`Unable to list the applications of ${this.getName()}: ${AsadminError.getMessage(error)}`);
+        }
     }
 
     public dispose() {
@@ -17,33 +17,36 @@
  * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
  */
 
-import * as cp from 'child_process';
 import { ChildProcess } from 'child_process';
 import * as fs from "fs";
 import * as fse from "fs-extra";
 import * as _ from "lodash";
 import * as open from "open";
 import * as path from "path";
-import * as tmp from "tmp";
-import { FileResult } from 'tmp';
 import { URL } from 'url';
 import * as isPort from 'validator/lib/isPort';
 import * as vscode from 'vscode';
 import { OpenDialogOptions, MessageOptions, OutputChannel, QuickPickItem, MessageItem, Uri, DebugConfiguration, WorkspaceFolder } from 'vscode';
 import { ApplicationInstance } from '../project/ApplicationInstance';
 import { DeploymentSupport } from '../project/DeploymentSupport';
+import { DeploymentHistory } from '../project/DeploymentHistory';
+import { DeploymentDiagnostics } from '../project/DeploymentDiagnostics';
 import * as ui from "../../../UI";
 import { MyButton } from '../../../UI';
-import { RestEndpoints } from './endpoints/RestEndpoints';
+import { AsadminClient, DeployParameters } from './endpoints/AsadminClient';
+import { AsadminError } from './endpoints/AsadminError';
 import { PayaraInstanceProvider } from "./PayaraInstanceProvider";
 import { InstanceState, PayaraServerInstance } from './PayaraServerInstance';
-import { JDKVersion } from './start/JDKVersion';
 import { StartTask } from './start/StartTask';
-import { JavaUtils } from './tooling/utils/JavaUtils';
+import { PortBaseWriter } from './start/PortBaseWriter';
+import { PortChecker } from './start/PortChecker';
+import { PayaraServerDownloader } from './PayaraServerDownloader';
+import { LocalDomainManager } from './domain/LocalDomainManager';
 import { ServerUtils } from './tooling/utils/ServerUtils';
 import { ProjectOutputWindowProvider } from '../project/ProjectOutputWindowProvider';
 import { RestEndpoint } from '../project/RestEndpoint';
 import { PayaraInstanceController } from '../common/PayaraInstanceController';
+import { RemoteDebugController } from './RemoteDebugController';
 import { PayaraRemoteServerInstance } from './PayaraRemoteServerInstance';
 import { PayaraLocalServerInstance } from './PayaraLocalServerInstance';
 import { PayaraServerTransformPlugin } from '../server/PayaraServerTransformPlugin';
@@ -66,7 +69,7 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
     }
 
     private async init(): Promise<void> {
-        this.instanceProvider.loadServerConfigs();
+        await this.instanceProvider.loadServerConfigs();
         this.refreshServerList();
     }
 
@@ -88,6 +91,7 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
                         let serverName = state.name;
                         let serverPath = state.path ? state.path : '';
                         let domainName = state.domainName;
+                        let password = state.password ? state.password.trim() : ServerUtils.DEFAULT_PASSWORD;
 
                         let registerServer = () => {
                             let payaraServer: PayaraServerInstance = state.type === 'local' ?
@@ -98,7 +102,7 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
                                     serverName, domainName
                                 );
                             payaraServer.setUsername(state.username ? state.username.trim() : ServerUtils.DEFAULT_USERNAME);
-                            payaraServer.setPassword(state.password ? state.password.trim() : ServerUtils.DEFAULT_PASSWORD);
+                            payaraServer.setPassword(password);
                             this.refreshServerList();
 
                             if (payaraServer instanceof PayaraLocalServerInstance) {
@@ -134,16 +138,25 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
                             this.instanceProvider.addServer(payaraServer);
                         };
                         if (state.newDomain) {
-                            controller.createDomain(
-                                registerServer,
-                                serverName,
-                                serverPath,
-                                domainName,
-                                state.adminPort,
-                                state.httpPort,
-                                state.username,
-                                state.password
-                            );
+                            let credentialStore = this.instanceProvider.getCredentialStore();
+                            credentialStore
+                                .setPassword(serverName, password)
+                                .then(() => new LocalDomainManager(serverPath).createDomain({
+                                    domainName: domainName,
+                                    adminPort: state.adminPort,
+                                    instancePort: state.httpPort,
+                                    username: state.username,
+                                    password: password
+                                }, ProjectOutputWindowProvider.getInstance().get(serverName)).then(
+                                    registerServer,
+                                    error => {
+                                        credentialStore.deletePassword(serverName);
+                                        vscode.window.showErrorMessage(AsadminError.getMessage(error));
+                                    }
+                                ))
+                                .catch(error => vscode.window.showErrorMessage(
+                                    'Unable to store the admin password: ' + ((error instanceof Error) ? error.message : error)
+                                ));
                         } else {
                             registerServer();
                         }
@@ -152,96 +165,6 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
         );
     }
 
-    private async createDomain(
-        callback: () => any,
-        serverName: string,
-        serverPath: string,
-        domainName: string,
-        adminPort?: number,
-        instancePort?: number,
-        username?: string,
-        password?: string) {
-
-        let passwordFile: FileResult;
-        if (!adminPort) {
-            adminPort = ServerUtils.DEFAULT_ADMIN_PORT;
-        }
-        if (!instancePort) {
-            instancePort = ServerUtils.DEFAULT_HTTP_PORT;
-        }
-        if (!username) {
-            username = ServerUtils.DEFAULT_USERNAME;
-        }
-        if (!password) {
-            password = ServerUtils.DEFAULT_PASSWORD;
-        }
-        let javaHome: string | undefined = JDKVersion.getDefaultJDKHome();
-        if (!javaHome) {
-            throw new Error("Java home path not found.");
-        }
-        let javaVmExe: string = JavaUtils.javaVmExecutableFullPath(javaHome);
-        let args: Array<string> = new Array<string>();
-        args.push("-client");
-        args.push("-jar");
-        args.push(path.join(serverPath, "glassfish", "modules", "admin-cli.jar"));
-        args.push("--user");
-        args.push(username);
-        if (password !== '') {
-            passwordFile = this.createTempPasswordFile(password);
-            args.push("--passwordfile");
-            args.push(passwordFile.name);
-        }
-        args.push("create-domain");
-        if (password === '') {
-            args.push("--nopassword");
-        }
-        args.push("--domaindir");
-        args.push(path.join(serverPath, "glassfish", "domains"));
-        args.push("--adminport");
-        args.push(String(adminPort));
-        args.push("--instanceport");
-        args.push(String(instancePort));
-        args.push(domainName);
-        let process: ChildProcess = cp.spawn(javaVmExe, args, { cwd: serverPath });
-        if (process.pid) {
-            let outputChannel = ProjectOutputWindowProvider.getInstance().get(serverName);
-            outputChannel.show(false);
-            outputChannel.append('Running the create-domain asadmin command ... \n');
-            let logCallback = (data: string | Buffer): void => outputChannel.append(data.toString());
-            if (process.stdout !== null) {
-                process.stdout.on('data', logCallback);
-            }
-            if (process.stderr !== null) {
-                process.stderr.on('data', logCallback);
-            }
-            process.on('error', (err: Error) => {
-                console.log('error: ' + err.message);
-            });
-            process.on('exit', (code: number) => {
-                if (code === 0) {
-                    callback();
-                } else {
-                    vscode.window.showErrorMessage('Command create-domain execution failed.');
-                }
-                if (passwordFile) {
-                    passwordFile.removeCallback();
-                }
-            });
-        }
-    }
-
-    private createTempPasswordFile(password: string): FileResult {
-        var tmpFile = tmp.fileSync({ prefix: 'payara-password-', postfix: '.txt' });
-        console.log('File: ', tmpFile.name);
-        let content = "AS_ADMIN_ADMINPASSWORD=" + password + '\n'; // to create domain
-        content += "AS_ADMIN_PASSWORD=" + password + '\n'; // to start domain
-        content += "AS_ADMIN_MASTERPASSWORD=" + ServerUtils.MASTER_PASSWORD;
-        if (fs.existsSync(tmpFile.name)) {
-            fs.writeFileSync(tmpFile.name, content);
-        }
-        return tmpFile;
-    }
-
     private async selectServerType(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<State>, callback: (n: Partial<State>) => any) {
         let local = { label: 'Local Domain' };
         let remote = { label: 'Remote Domain' };
@@ -346,44 +269,90 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
             .getUnlistedServers()
             .map(server => ({ label: server.getPath() }));
 
-        if (unlistedServers.length > 0) {
-            let browseServerButtonLabel = 'Browse the Payara Server...';
-            const browseServerButton = new MyButton({
-                dark: Uri.file(this.context.asAbsolutePath('resources/theme/dark/add.svg')),
-                light: Uri.file(this.context.asAbsolutePath('resources/theme/light/add.svg')),
-            }, browseServerButtonLabel);
-            unlistedServers.push(({ label: browseServerButtonLabel }));
-            let pick = await input.showQuickPick({
-                title: 'Register Payara Server',
-                step: step,
-                totalSteps: totalSteps,
-                placeholder: 'Select the Payara Server location',
-                items: unlistedServers,
-                buttons: [browseServerButton],
-                shouldResume: this.shouldResume
-            });
+        let browseServerButtonLabel = 'Browse the Payara Server...';
+        let downloadServerLabel = 'Download Payara Server...';
+        const browseServerButton = new MyButton({
+            dark: Uri.file(this.context.asAbsolutePath('resources/theme/dark/add.svg')),
+            light: Uri.file(this.context.asAbsolutePath('resources/theme/light/add.svg')),
+        }, browseServerButtonLabel);
+        unlistedServers.push(({ label: browseServerButtonLabel }));
+        unlistedServers.push(({ label: downloadServerLabel }));
+        let pick = await input.showQuickPick({
+            title: 'Register Payara Server',
+            step: step,
+            totalSteps: totalSteps,
+            placeholder: 'Select the Payara Server location',
+            items: unlistedServers,
+            buttons: [browseServerButton],
+            shouldResume: this.shouldResume
+        });
 
-            if (pick instanceof ui.MyButton || pick.label === browseServerButtonLabel) {
-                let fileUris = await vscode.window.showOpenDialog(dialogOptions);
-                if (!fileUris) {
-                    return;
-                }
-                serverPath = getServerPaths(fileUris);
-            } else {
-                serverPath = pick.label;
-            }
-        } else {
+        if (pick instanceof ui.MyButton || pick.label === browseServerButtonLabel) {
             let fileUris = await vscode.window.showOpenDialog(dialogOptions);
             if (!fileUris) {
                 return;
             }
             serverPath = getServerPaths(fileUris);
+        } else if (pick.label === downloadServerLabel) {
+            return (input: ui.MultiStepInput) => this.downloadServer(step, totalSteps + 1, input, state, callback);
+        } else {
+            serverPath = pick.label;
         }
 
         state.path = serverPath;
         return (input: ui.MultiStepInput) => this.serverName(step, totalSteps, input, state, callback);
     }
 
+    private async downloadServer(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<State>, callback: (n: Partial<State>) => any) {
+        let downloader = new PayaraServerDownloader();
+        let versions: string[];
+        try {
+            versions = await downloader.getVersions();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Unable to fetch the Payara Server versions from ${downloader.getRepositoryUrl()}: ` + AsadminError.getMessage(error));
+            return;
+        }
+        let items = versions.map(version => ({ label: version }));
+        const pick = await input.showQuickPick({
+            title: 'Register Payara Server',
+            step: ++step,
+            totalSteps: totalSteps,
+            placeholder: 'Select the Payara Server version to download',
+            items: items,
+            activeItem: items[0],
+            shouldResume: this.shouldResume
+        });
+        let version = pick.label;
+        let targetFolders = await vscode.window.showOpenDialog({
+            defaultUri: vscode.workspace.rootPath ? vscode.Uri.file(vscode.workspace.rootPath) : undefined,
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Select Installation Folder'
+        });
+        if (!targetFolders || targetFolders.length === 0) {
+            return;
+        }
+        let serverPath: string;
+        try {
+            serverPath = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Downloading Payara Server ${version}`,
+                cancellable: true
+            }, (progress, token) => downloader.install(
+                version,
+                targetFolders[0].fsPath,
+                (message, increment) => progress.report({ message: message, increment: increment }),
+                token
+            ));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Unable to install Payara Server ${version}: ` + AsadminError.getMessage(error));
+            return;
+        }
+        state.path = serverPath;
+        return (input: ui.MultiStepInput) => this.serverName(step, totalSteps, input, state, callback);
+    }
+
     private async serverName(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<State>, callback: (n: Partial<State>) => any) {
         const title = 'Register Payara Server';
         let serverPath: string = state.path ? state.path : '';
@@ -639,9 +608,17 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
             vscode.window.showErrorMessage('Payara Server instance already running.');
             return;
         }
+        if (!await this.checkPorts(payaraServer, debug, debugPort)) {
+            if (callback) {
+                callback(false);
+            }
+            return;
+        }
 
         let process: ChildProcess = new StartTask().startServer(payaraServer, debug, debugPort);
         if (process.pid) {
+            payaraServer.setProcess(process);
+            payaraServer.setRunningLaunchProfileName(payaraServer.getLaunchProfileName());
             payaraServer.setDebug(debug);
             payaraServer.setState(InstanceState.LOADING);
             this.refreshServerList();
@@ -683,65 +660,208 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
         }
     }
 
+    /**
+     * Checks that the ports of the domain are free before it is started,
+     * otherwise offers to stop the registered server holding them or to shift
+     * the ports of the domain with a port base.
+     *
+     * @returns true if the server can be started.
+     */
+    private async checkPorts(payaraServer: PayaraLocalServerInstance, debug: boolean, debugPort: string): Promise<boolean> {
+        let requiredPorts = new StartTask().getRequiredPorts(payaraServer, debug, debugPort);
+        let usedPorts = await PortChecker.getUsedPorts(requiredPorts.map(serverPort => serverPort.port));
+        if (usedPorts.length === 0) {
+            return true;
+        }
+        let conflicts = requiredPorts.filter(serverPort => usedPorts.indexOf(serverPort.port) > -1);
+        let owner = this.instanceProvider.getServers().find(server =>
+            server !== payaraServer
+            && server instanceof PayaraLocalServerInstance
+            && !server.isStopped()
+            && [server.getAdminPort(), server.getHttpPort(), server.getHttpsPort()].some(port => usedPorts.indexOf(port) > -1)
+        ) as PayaraLocalServerInstance | undefined;
+
+        let message = conflicts.map(serverPort => `${serverPort.name} port ${serverPort.port}`).join(', ')
+            + ` of ${payaraServer.getName()} ${conflicts.length > 1 ? 'are' : 'is'} already in use`
+            + (owner ? ` by ${owner.getName()}.` : '.');
+        let stopOwner = owner ? `Stop ${owner.getName()}` : undefined;
+        let shiftPorts = 'Shift Ports';
+        let actions: string[] = stopOwner ? [stopOwner, shiftPorts] : [shiftPorts];
+        let action = await vscode.window.showErrorMessage(message, ...actions);
+        if (owner && action === stopOwner) {
+            await this.stopServer(owner);
+            if (!await PortChecker.waitUntilAvailable(usedPorts, ServerUtils.DEFAULT_RETRY_COUNT, 1000)) {
+                vscode.window.showErrorMessage(`Ports ${usedPorts.join(', ')} are still in use after stopping ${owner.getName()}.`);
+                return false;
+            }
+            return this.checkPorts(payaraServer, debug, debugPort);
+        } else if (action === shiftPorts) {
+            let portBase = await this.selectPortBase();
+            if (portBase === undefined) {
+                return false;
+            }
+            try {
+                await new PortBaseWriter(payaraServer.getDomainXmlPath(), ServerUtils.DAS_NAME).applyPortBase(portBase);
+            } catch (error) {
+                vscode.window.showErrorMessage('Unable to shift the ports of the domain. ' + AsadminError.getMessage(error));
+                return false;
+            }
+            payaraServer.reloadPorts();
+            this.refreshServerList();
+            vscode.window.showInformationMessage(`Ports of ${payaraServer.getName()} shifted with port base ${portBase}, admin port is ${payaraServer.getAdminPort()}.`);
+            return this.checkPorts(payaraServer, debug, debugPort);
+        }
+        return false;
+    }
+
+    private async selectPortBase(): Promise<number | undefined> {
+        let suggestedPortBase = await PortChecker.suggestPortBase();
+        let value = await vscode.window.showInputBox({
+            prompt: `Enter the port base, the admin port becomes port base + ${PortBaseWriter.ADMIN_PORT_OFFSET} and HTTP port port base + ${PortBaseWriter.HTTP_PORT_OFFSET}`,
+            value: suggestedPortBase ? suggestedPortBase.toString() : '',
+            validateInput: value => {
+                let portBase = Number(value);
+                if (!/^\d+$/.test(value.trim()) || portBase < 1024 || portBase > 65435) {
+                    return 'Port base must be a number between 1024 and 65435.';
+                }
+                return undefined;
+            }
+        });
+        return value ? parseInt(value.trim(), 10) : undefined;
+    }
+
     public async restartServer(payaraServer: PayaraServerInstance, debug: boolean, callback?: (status: boolean) => any): Promise<void> {
         if (payaraServer.isStopped()) {
             vscode.window.showErrorMessage('Payara Server instance not running.');
+            if (callback) {
+                callback(false);
+            }
             return;
         }
-        let endpoints: RestEndpoints = new RestEndpoints(payaraServer);
-        let query: string = '?debug=' + debug;
-        endpoints.invoke("restart-domain", async (res) => {
-            payaraServer.connectOutput();
-            payaraServer.setDebug(debug);
-            payaraServer.setState(InstanceState.RESTARTING);
-            this.refreshServerList();
-            payaraServer.getOutputChannel().show(false);
-            payaraServer.checkAliveStatusUsingRest(ServerUtils.DEFAULT_RETRY_COUNT,
+        let client: AsadminClient = new AsadminClient(payaraServer);
+        try {
+            await client.invoke('restart-domain', { debug: debug });
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to restart the Payara Server. ' + AsadminError.getMessage(error));
+            if (callback) {
+                callback(false);
+            }
+            return;
+        }
+        payaraServer.connectOutput();
+        payaraServer.setDebug(debug);
+        payaraServer.setState(InstanceState.RESTARTING);
+        this.refreshServerList();
+        payaraServer.getOutputChannel().show(false);
+        payaraServer.checkAliveStatusUsingRest(ServerUtils.DEFAULT_RETRY_COUNT,
+            async () => {
+                payaraServer.setStarted(true);
+                payaraServer.connectOutput();
+                this.refreshServerList();
+                if (callback) {
+                    callback(true);
+                }
+            },
+            async (message?: string) => {
+                payaraServer.setStarted(false);
+                payaraServer.disconnectOutput();
+                this.refreshServerList();
+                if (callback) {
+                    callback(false);
+                }
+                vscode.window.showErrorMessage('Unable to restart the Payara Server. ' + message);
+            }
+        );
+        if (payaraServer instanceof PayaraLocalServerInstance) {
+            payaraServer.checkAliveStatusUsingJPS(
                 async () => {
-                    payaraServer.setStarted(true);
                     payaraServer.connectOutput();
-                    this.refreshServerList();
-                    if (callback) {
-                        callback(true);
-                    }
-                },
-                async (message?: string) => {
-                    payaraServer.setStarted(false);
-                    payaraServer.disconnectOutput();
-                    this.refreshServerList();
-                    if (callback) {
-                        callback(false);
-                    }
-                    vscode.window.showErrorMessage('Unable to restart the Payara Server. ' + message);
                 }
             );
-            if (payaraServer instanceof PayaraLocalServerInstance) {
-                payaraServer.checkAliveStatusUsingJPS(
-                    async () => {
-                        payaraServer.connectOutput();
-                    }
-                );
-            }
-        },
-            (res, message) => vscode.window.showErrorMessage('Unable to restart the Payara Server. ' + message)
-        );
+        }
     }
 
-    public async stopServer(payaraServer: PayaraLocalServerInstance): Promise<void> {
+    public async stopServer(payaraServer: PayaraServerInstance): Promise<void> {
         if (payaraServer.isStopped()) {
             vscode.window.showErrorMessage('Payara Server instance not running.');
             return;
         }
-        let endpoints: RestEndpoints = new RestEndpoints(payaraServer);
-        endpoints.invoke("stop-domain", async res => {
-            if (res.statusCode === 200) {
-                payaraServer.setState(InstanceState.STOPPED);
-                payaraServer.setDebug(false);
-                await new Promise(res => setTimeout(res, 2000));
+        let client: AsadminClient = new AsadminClient(payaraServer);
+        try {
+            await client.invoke('stop-domain');
+        } catch (error) {
+            let message = 'Unable to stop the Payara Server. ' + AsadminError.getMessage(error);
+            if (!(payaraServer instanceof PayaraLocalServerInstance)) {
+                vscode.window.showErrorMessage(message);
+                return;
+            }
+            let forceStop = 'Force Stop';
+            if (await vscode.window.showErrorMessage(message, forceStop) === forceStop) {
+                await this.killServer(payaraServer);
+            }
+            return;
+        }
+        if (!(payaraServer instanceof PayaraLocalServerInstance)) {
+            await new Promise(res => setTimeout(res, 2000));
+            this.setServerStopped(payaraServer);
+            return;
+        }
+        let state = payaraServer.getState();
+        payaraServer.setState(InstanceState.LOADING);
+        this.refreshServerList();
+        if (!await payaraServer.waitForExit(ServerUtils.DEFAULT_STOP_TIMEOUT)) {
+            let forceStop = 'Force Stop';
+            let action = await vscode.window.showWarningMessage(
+                `Payara Server ${payaraServer.getName()} did not stop within ${ServerUtils.DEFAULT_STOP_TIMEOUT / 1000} seconds.`, forceStop
+            );
+            if (action === forceStop) {
+                await this.killServer(payaraServer);
+            } else {
+                payaraServer.setState(state);
                 this.refreshServerList();
-                payaraServer.disconnectOutput();
             }
-        });
+            return;
+        }
+        this.setServerStopped(payaraServer);
+    }
+
+    public async forceStopServer(payaraServer: PayaraLocalServerInstance): Promise<void> {
+        let forceStop = 'Force Stop';
+        let action = await vscode.window.showWarningMessage(
+            `Kill the process of ${payaraServer.getName()}? The applications are not shut down gracefully.`,
+            { modal: true }, forceStop
+        );
+        if (action === forceStop) {
+            await this.killServer(payaraServer);
+        }
+    }
+
+    /**
+     * Kills the JVM spawned by startServer or found with the Java Process
+     * tool.
+     */
+    private async killServer(payaraServer: PayaraLocalServerInstance): Promise<void> {
+        try {
+            if (!await payaraServer.killProcess()) {
+                payaraServer.getOutputChannel().appendLine(`No running process found for ${payaraServer.getName()}.`);
+            } else if (await payaraServer.waitForExit(ServerUtils.DEFAULT_WAIT)) {
+                payaraServer.getOutputChannel().appendLine(`${payaraServer.getName()} process killed.`);
+            } else {
+                vscode.window.showErrorMessage(`Unable to kill the process of ${payaraServer.getName()}.`);
+                return;
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to kill the Payara Server process. ' + AsadminError.getMessage(error));
+            return;
+        }
+        this.setServerStopped(payaraServer);
+    }
+
+    private setServerStopped(payaraServer: PayaraServerInstance): void {
+        payaraServer.setState(InstanceState.STOPPED);
+        payaraServer.setDebug(false);
+        this.refreshServerList();
+        payaraServer.disconnectOutput();
     }
 
     public async renameServer(payaraServer: PayaraServerInstance): Promise<void> {
@@ -753,6 +873,8 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
                 validateInput: name => this.validateServerName(name, this.instanceProvider)
             }).then(newName => {
                 if (newName) {
+                    this.instanceProvider.getCredentialStore().renamePassword(payaraServer.getName(), newName);
+                    new DeploymentHistory(this.context.globalState).renameServer(payaraServer.getName(), newName);
                     payaraServer.setName(newName);
                     this.instanceProvider.updateServerConfig();
                     this.refreshServerList();
@@ -763,21 +885,31 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
 
     public async removeServer(payaraServer: PayaraServerInstance): Promise<void> {
         this.instanceProvider.removeServer(payaraServer);
+        this.instanceProvider.getCredentialStore().deletePassword(payaraServer.getName());
         this.refreshServerList();
         payaraServer.dispose();
     }
 
     public async updateCredentials(payaraServer: PayaraServerInstance): Promise<void> {
+        let credentialStore = this.instanceProvider.getCredentialStore();
         let state: Partial<State> = {
             username: payaraServer.getUsername(),
-            password: payaraServer.getPassword()
+            password: credentialStore.getPassword(payaraServer.getName())
         };
         ui.MultiStepInput.run(
             input => this.addCredentials(
                 0, 0, false, input, state,
-                () => {
+                async () => {
                     payaraServer.setUsername(state.username ? state.username.trim() : ServerUtils.DEFAULT_USERNAME);
-                    payaraServer.setPassword(state.password ? state.password.trim() : ServerUtils.DEFAULT_PASSWORD);
+                    try {
+                        await this.instanceProvider.setPassword(
+                            payaraServer,
+                            state.password ? state.password.trim() : ServerUtils.DEFAULT_PASSWORD
+                        );
+                    } catch (error) {
+                        vscode.window.showErrorMessage('Unable to store the admin password: ' + ((error instanceof Error) ? error.message : error));
+                        return;
+                    }
                     this.instanceProvider.updateServerConfig();
                     vscode.window.showInformationMessage('Credentials updated successfully.');
                 }
@@ -849,6 +981,12 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
                     this.startServer(server, debug, debugPort, deploy);
                 } else if (server instanceof PayaraLocalServerInstance && debug && !server.isDebug()) {
                     this.restartServer(server, debug, deploy);
+                } else if (server instanceof PayaraRemoteServerInstance && debug) {
+                    new RemoteDebugController(this).prepareDebug(server).then(ready => {
+                        if (ready) {
+                            deploy(true);
+                        }
+                    });
                 } else {
                     deploy(true);
                 }
@@ -872,7 +1010,7 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
         return undefined;
     }
 
-    private selectListedServer(callback: (server: PayaraServerInstance) => any) {
+    public selectListedServer(callback: (server: PayaraServerInstance) => any) {
         let servers: PayaraServerInstance[] = this.instanceProvider.getServers();
         if (servers.length === 0) {
             vscode.window.showErrorMessage('Please register the Payara Server.');
@@ -899,57 +1037,164 @@ export class PayaraServerInstanceController extends PayaraInstanceController {
         }
     }
 
-    public undeployApp(application: ApplicationInstance) {
-        let controller = this;
+    public async undeployApp(application: ApplicationInstance): Promise<void> {
         let payaraServer = application.payaraServer;
-        let endpoints: RestEndpoints = new RestEndpoints(payaraServer);
-        let query: string = '?name=' + encodeURIComponent(application.name);
-        endpoints.invoke("undeploy" + query, async response => {
-            if (response.statusCode === 200) {
-                payaraServer.removeApplication(application);
-                controller.refreshServerList();
-            }
-        });
+        let target = await this.selectTarget(payaraServer, 'Select the target to undeploy the application from', true);
+        if (!target) {
+            return;
+        }
+        let client: AsadminClient = new AsadminClient(payaraServer);
+        try {
+            await client.invoke('undeploy', { name: application.name, target: target });
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to undeploy the application. ' + AsadminError.getMessage(error));
+            return;
+        }
+        let history = new DeploymentHistory(this.context.globalState);
+        let deployment = history.get(payaraServer.getName(), application.name);
+        if (deployment && (target === deployment.target || target === 'domain')) {
+            history.remove(payaraServer.getName(), application.name);
+        }
+        // still listed if deployed on the deploy target of the server
+        await payaraServer.reloadApplications();
     }
 
-    public enableApp(application: ApplicationInstance) {
-        let controller = this;
+    /**
+     * Redeploys the artifact of the last deployment of the application with
+     * the same options, keeping the application state.
+     */
+    public async redeployApp(application: ApplicationInstance): Promise<void> {
         let payaraServer = application.payaraServer;
-        let endpoints: RestEndpoints = new RestEndpoints(payaraServer);
-        let query: string = '?DEFAULT=' + encodeURIComponent(application.name);
-        endpoints.invoke("enable" + query, async response => {
-            if (response.statusCode === 200) {
-                application.setEnabled(true);
-                controller.refreshServerList();
-            }
-        });
+        let deployment = new DeploymentHistory(this.context.globalState).get(payaraServer.getName(), application.name);
+        if (!deployment) {
+            vscode.window.showErrorMessage(`No deployment of ${application.name} recorded on ${payaraServer.getName()}, please deploy the application from its workspace folder first.`);
+            return;
+        }
+        if (!fs.existsSync(deployment.artifactPath)) {
+            vscode.window.showErrorMessage(`Unable to redeploy ${application.name}, the artifact ${deployment.artifactPath} no longer exists.`);
+            return;
+        }
+        let parameters: DeployParameters = {
+            ...deployment.profile,
+            path: deployment.deployPath,
+            name: application.name,
+            upload: deployment.upload,
+            target: deployment.target,
+            keepState: true
+        };
+        payaraServer.getOutputChannel().show(false);
+        let client: AsadminClient = new AsadminClient(payaraServer);
+        let workspaceFolder = deployment.workspaceFolder ? vscode.workspace.getWorkspaceFolder(Uri.parse(deployment.workspaceFolder)) : undefined;
+        let diagnosticsKey = workspaceFolder || deployment.artifactPath;
+        let diagnostics = DeploymentDiagnostics.getInstance();
+        let deployStart = Date.now();
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Redeploying ${application.name}`
+            }, () => client.redeploy(parameters));
+        } catch (error) {
+            let message = AsadminError.getMessage(error);
+            let count = await diagnostics.report(diagnosticsKey, payaraServer, message, deployStart)
+                .catch(diagnosticsError => {
+                    console.error(diagnosticsError);
+                    return 0;
+                });
+            let action = count > 0 ? ['Show Problems'] : [];
+            vscode.window.showErrorMessage('Unable to redeploy the application. ' + message, ...action)
+                .then(selected => {
+                    if (selected) {
+                        vscode.commands.executeCommand('workbench.actions.view.problems');
+                    }
+                });
+            return;
+        }
+        diagnostics.clear(diagnosticsKey);
+        vscode.window.showInformationMessage(`Application ${application.name} redeployed successfully.`);
+        payaraServer.reloadApplications();
+        this.refreshServerList();
     }
 
-    public disableApp(application: ApplicationInstance) {
-        let controller = this;
-        let payaraServer = application.payaraServer;
-        let endpoints: RestEndpoints = new RestEndpoints(payaraServer);
-        let query: string = '?DEFAULT=' + encodeURIComponent(application.name);
-        endpoints.invoke("disable" + query, async response => {
-            if (response.statusCode === 200) {
-                application.setEnabled(false);
-                controller.refreshServerList();
-            }
-        });
+    public async enableApp(application: ApplicationInstance): Promise<void> {
+        let target = await this.selectTarget(application.payaraServer, 'Select the target to enable the application on');
+        if (!target) {
+            return;
+        }
+        let client: AsadminClient = new AsadminClient(application.payaraServer);
+        try {
+            await client.invoke('enable', { DEFAULT: application.name, target: target });
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to enable the application. ' + AsadminError.getMessage(error));
+            return;
+        }
+        application.setEnabled(true);
+        this.refreshServerList();
     }
 
-    public openApp(application: ApplicationInstance) {
-        if (application.getContextPath() === null) {
+    public async disableApp(application: ApplicationInstance): Promise<void> {
+        let target = await this.selectTarget(application.payaraServer, 'Select the target to disable the application on');
+        if (!target) {
+            return;
+        }
+        let client: AsadminClient = new AsadminClient(application.payaraServer);
+        try {
+            await client.invoke('disable', { DEFAULT: application.name, target: target });
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to disable the application. ' + AsadminError.getMessage(error));
+            return;
+        }
+        application.setEnabled(false);
+        this.refreshServerList();
+    }
+
+    /**
+     * Picks the instance, deployment group or the DAS targeted by an
+     * application command, the deploy target of the server is suggested
+     * first. No choice is offered if the domain has no instance.
+     *
+     * @param domain offers the domain target, i.e all the targets.
+     * @returns the target or undefined if cancelled.
+     */
+    public async selectTarget(payaraServer: PayaraServerInstance, placeHolder: string, domain?: boolean): Promise<string | undefined> {
+        let targets: string[];
+        try {
+            targets = await new AsadminClient(payaraServer).listTargets();
+        } catch (error) {
+            console.log(`Unable to list the targets of ${payaraServer.getName()}: ${AsadminError.getMessage(error)}`);
+            targets = [ServerUtils.DAS_NAME];
+        }
+        let deployTarget = payaraServer.getDeployTarget();
+        if (targets.length === 1 && deployTarget === ServerUtils.DAS_NAME) {
+            return deployTarget;
+        }
+        targets = [deployTarget, ...targets.filter(target => target !== deployTarget)];
+        let items: QuickPickItem[] = targets.map(target => ({
+            label: target,
+            description: target === ServerUtils.DAS_NAME ? 'DAS' : undefined
+        }));
+        if (domain) {
+            items.push({ label: 'domain', description: 'all targets' });
+        }
+        let pick = await vscode.window.showQuickPick(items, { placeHolder: placeHolder });
+        return pick ? pick.label : undefined;
+    }
+
+    public async openApp(application: ApplicationInstance): Promise<void> {
+        let contextPath = application.getContextPath();
+        if (contextPath === undefined) {
+            try {
+                contextPath = await application.fetchContextPath();
+            } catch (error) {
+                vscode.window.showErrorMessage('Unable to fetch the context path of the application. ' + AsadminError.getMessage(error));
+                return;
+            }
+        }
+        if (contextPath === null) {
             vscode.window.showInformationMessage('Context path not found for the application: ' + application.name);
-        } else if (application.getContextPath() === undefined) {
-            application.fetchContextPath(() => open(new URL(
-                `http://${application.payaraServer.getHost()}:${application.payaraServer.getHttpPort()}`
-                + application.getContextPath()).toString()
-            ));
         } else {
             open(new URL(
                 `http://${application.payaraServer.getHost()}:${application.payaraServer.getHttpPort()}`
-                + application.getContextPath()).toString()
+                + contextPath).toString()
             );
         }
     }
@@ -25,6 +25,12 @@ import { PayaraServerInstance } from "./PayaraServerInstance";
 import { ApplicationInstance } from '../project/ApplicationInstance';
 import { RestEndpoint } from "../project/RestEndpoint";
 import { PayaraLocalServerInstance } from './PayaraLocalServerInstance';
+import { JdbcNode } from './jdbc/JdbcNode';
+import { ClusterNode } from './cluster/ClusterNode';
+import { DeploymentGroup } from './cluster/DeploymentGroup';
+import { OpenApiNode } from '../project/openapi/OpenApiNode';
+import { OpenApiTag } from '../project/openapi/OpenApiTag';
+import { OpenApiOperation } from '../project/openapi/OpenApiOperation';
 
 export class PayaraServerTreeDataProvider implements vscode.TreeDataProvider<TreeItem> {
 
@@ -51,21 +57,44 @@ export class PayaraServerTreeDataProvider implements vscode.TreeDataProvider<Tre
                 server.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
                 server.label = server.getName();
                 server.tooltip = server.getTooltip();
+                if (server instanceof PayaraLocalServerInstance) {
+                    server.description = server.getLaunchProfileName();
+                }
                 return server;
             });
         } else if (item instanceof PayaraServerInstance && item.isStarted()) {
-            return item.getApplications().map((application: ApplicationInstance) => {
+            let applications: TreeItem[] = item.getApplications().map((application: ApplicationInstance) => {
                 application.iconPath = vscode.Uri.file(this.context.asAbsolutePath(path.join('resources', application.getIcon())));
                 application.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
                 application.label = application.name;
                 application.contextValue = "payara-application";
+                application.command = {
+                    command: 'payara.server.app.details',
+                    title: 'Show Details',
+                    arguments: [application]
+                };
                 return application;
             });
+            let openApi = new OpenApiNode(item.getName(), `http://${item.getHost()}:${item.getHttpPort()}`, 'payara.server.refresh');
+            return [...applications, new JdbcNode(item), new ClusterNode(item), openApi];
+        } else if (item instanceof JdbcNode) {
+            return item.fetchChildren();
+        } else if (item instanceof ClusterNode || item instanceof DeploymentGroup) {
+            return item.fetchChildren();
+        } else if (item instanceof OpenApiNode) {
+            return item.fetchChildren();
+        } else if (item instanceof OpenApiTag || item instanceof OpenApiOperation) {
+            return item.getChildren();
         } else if (item instanceof ApplicationInstance) {
             return item.getRestEndpoints().map((endpoint: RestEndpoint) => {
                 endpoint.iconPath = vscode.Uri.file(this.context.asAbsolutePath(path.join('resources', 'rest-endpoint.svg')));
                 endpoint.label = endpoint.httpMethod + " " + endpoint.endpoint;
                 endpoint.contextValue = "application-rest-endpoint";
+                endpoint.command = {
+                    command: 'payara.server.app.rest.request',
+                    title: 'Send Request',
+                    arguments: [endpoint]
+                };
                 return endpoint;
             });
         }
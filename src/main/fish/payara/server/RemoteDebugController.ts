@@ -0,0 +1,151 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { DebugConfiguration } from "vscode";
+import { PayaraRemoteServerInstance } from "./PayaraRemoteServerInstance";
+import { PayaraServerInstanceController } from "./PayaraServerInstanceController";
+import { AsadminClient } from "./endpoints/AsadminClient";
+import { AsadminError } from "./endpoints/AsadminError";
+import { PortChecker } from "./start/PortChecker";
+import { ServerUtils } from "./tooling/utils/ServerUtils";
+import { DebugManager } from "../project/DebugManager";
+
+/**
+ * Attaches the debugger to remote and Docker servers. The debug port is read
+ * from the java-config debug-options of the server, Docker instances use the
+ * port mapped on the host instead.
+ */
+export class RemoteDebugController {
+
+    private static DEBUG_OPTIONS: string = 'configs.config.server-config.java-config.debug-options';
+
+    /** Timeout of the connection to the debug port. */
+    private static CONNECT_TIMEOUT: number = 3000;
+
+    constructor(private controller: PayaraServerInstanceController) {
+    }
+
+    /**
+     * Checks that the debug port of the server is listening, otherwise offers
+     * to restart the server in debug mode.
+     *
+     * @returns true if the debugger can be attached.
+     */
+    public async prepareDebug(payaraServer: PayaraRemoteServerInstance): Promise<boolean> {
+        let port = await this.getDebugPort(payaraServer);
+        if (port === undefined) {
+            return false;
+        }
+        if (await PortChecker.isReachable(payaraServer.getHost(), port, RemoteDebugController.CONNECT_TIMEOUT)) {
+            payaraServer.setDebug(true);
+            this.controller.refreshServerList();
+            return true;
+        }
+        let restart = 'Restart in Debug Mode';
+        let action = await vscode.window.showWarningMessage(
+            `Payara Server ${payaraServer.getName()} is not listening on the debug port ${payaraServer.getHost()}:${port}.`, restart
+        );
+        if (action !== restart) {
+            return false;
+        }
+        let restarted = await new Promise<boolean>(resolve => this.controller.restartServer(payaraServer, true, resolve));
+        if (!restarted) {
+            return false;
+        }
+        if (!await PortChecker.isReachable(payaraServer.getHost(), port, RemoteDebugController.CONNECT_TIMEOUT)) {
+            vscode.window.showErrorMessage(`Payara Server ${payaraServer.getName()} restarted in debug mode but the debug port ${payaraServer.getHost()}:${port} is not reachable.`
+                + (payaraServer.isDocker() ? ' Please check the port mapping of the container.' : ''));
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * @returns the attach configuration of the server, undefined if the debug
+     * port is unknown.
+     */
+    public async getDebugConfiguration(payaraServer: PayaraRemoteServerInstance): Promise<DebugConfiguration | undefined> {
+        let port = await this.getDebugPort(payaraServer);
+        if (port === undefined) {
+            return undefined;
+        }
+        return new DebugManager().getRemoteServerConfig(payaraServer.getName(), payaraServer.getHost(), port);
+    }
+
+    /**
+     * Changes the debug port of the server, required for Docker instances as
+     * the port of the debug-options is the container one.
+     */
+    public async editDebugPort(payaraServer: PayaraRemoteServerInstance): Promise<number | undefined> {
+        let defaultPort = payaraServer.getDebugPort();
+        if (defaultPort === undefined) {
+            defaultPort = await this.readDebugOptionsPort(payaraServer);
+        }
+        let value = await vscode.window.showInputBox({
+            prompt: payaraServer.isDocker()
+                ? 'Enter the host port mapped to the debug port of the container'
+                : 'Enter the debug port, leave empty to read it from the debug-options of the server',
+            value: defaultPort !== undefined ? String(defaultPort) : '',
+            validateInput: value => {
+                if (!value.trim()) {
+                    return payaraServer.isDocker() ? 'Debug port is required for a Docker instance.' : undefined;
+                }
+                let port = parseInt(value.trim(), 10);
+                return !/^\d+$/.test(value.trim()) || port < 1 || port > 65535 ? 'Debug port must be a number between 1 and 65535.' : undefined;
+            }
+        });
+        if (value === undefined) {
+            return undefined;
+        }
+        let port = value.trim() ? parseInt(value.trim(), 10) : undefined;
+        payaraServer.setDebugPort(port);
+        this.controller.updateConfig();
+        return port;
+    }
+
+    private async getDebugPort(payaraServer: PayaraRemoteServerInstance): Promise<number | undefined> {
+        let port = payaraServer.getDebugPort();
+        if (port !== undefined) {
+            return port;
+        }
+        if (payaraServer.isDocker()) {
+            return this.editDebugPort(payaraServer);
+        }
+        port = await this.readDebugOptionsPort(payaraServer);
+        return port !== undefined ? port : ServerUtils.DEFAULT_DEBUG_PORT;
+    }
+
+    /**
+     * @returns the port of the address of the java-config debug-options e.g
+     * -agentlib:jdwp=transport=dt_socket,server=y,suspend=n,address=*:9009
+     */
+    private async readDebugOptionsPort(payaraServer: PayaraRemoteServerInstance): Promise<number | undefined> {
+        try {
+            let values = await new AsadminClient(payaraServer).getDottedValues(RemoteDebugController.DEBUG_OPTIONS);
+            let debugOptions = values.get(RemoteDebugController.DEBUG_OPTIONS);
+            let address = debugOptions ? debugOptions.match(/address=(?:[^,:]*:)?(\d+)/) : null;
+            return address ? parseInt(address[1], 10) : undefined;
+        } catch (error) {
+            console.error(`Unable to read the debug-options of ${payaraServer.getName()}: ${AsadminError.getMessage(error)}`);
+            return undefined;
+        }
+    }
+
+}
@@ -0,0 +1,185 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { AsadminClient } from "./endpoints/AsadminClient";
+import { AsadminError } from "./endpoints/AsadminError";
+import { InstanceState, PayaraServerInstance } from "./PayaraServerInstance";
+import { PayaraInstanceProvider } from "./PayaraInstanceProvider";
+import { PayaraLocalServerInstance } from "./PayaraLocalServerInstance";
+import { PayaraRemoteServerInstance } from "./PayaraRemoteServerInstance";
+
+/**
+ * Periodically confirms the state of the registered servers, so that the
+ * servers started, stopped or crashed outside VS Code are reflected in the
+ * tree. Local servers are looked up with the Java Process tool, run once a
+ * check per JDK, remote servers with the __locations command.
+ */
+export class ServerStateWatcher implements vscode.Disposable {
+
+    /** Timeout of the __locations request of a single check. */
+    private static REQUEST_TIMEOUT: number = 5000;
+
+    /**
+     * Consecutive checks contradicting the state of a server after which the
+     * state is updated, so that a start or stop in progress or a network
+     * glitch is not reported.
+     */
+    private static MAX_MISMATCHES: number = 2;
+
+    private timer: NodeJS.Timeout | undefined;
+
+    private started: boolean = false;
+
+    private mismatches: Map<PayaraServerInstance, number> = new Map<PayaraServerInstance, number>();
+
+    constructor(private instanceProvider: PayaraInstanceProvider) {
+    }
+
+    public start(): void {
+        if (this.started) {
+            return;
+        }
+        this.started = true;
+        this.schedule();
+    }
+
+    public stop(): void {
+        this.started = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    public dispose(): void {
+        this.stop();
+    }
+
+    private schedule(): void {
+        let interval = vscode.workspace.getConfiguration('payara').get<number>('server.stateCheckInterval', 10);
+        // a disabled watcher checks the setting again every minute
+        let delay = interval > 0 ? interval * 1000 : 60000;
+        this.timer = setTimeout(async () => {
+            this.timer = undefined;
+            if (interval > 0) {
+                await this.checkAll();
+            }
+            if (this.started) {
+                this.schedule();
+            }
+        }, delay);
+    }
+
+    private async checkAll(): Promise<void> {
+        // Java processes listed by the Java Process executable of each JDK
+        let javaProcesses: Map<string, Promise<string | undefined>> = new Map<string, Promise<string | undefined>>();
+        for (let payaraServer of this.instanceProvider.getServers()) {
+            try {
+                await this.check(payaraServer, javaProcesses);
+            } catch (error) {
+                console.error(error);
+            }
+        }
+    }
+
+    private async check(payaraServer: PayaraServerInstance, javaProcesses: Map<string, Promise<string | undefined>>): Promise<void> {
+        // started, stopped or restarted by the extension
+        if ((payaraServer instanceof PayaraRemoteServerInstance && !payaraServer.isConnectionAllowed())
+            || payaraServer.isLoading() || payaraServer.isRestarting()) {
+            this.mismatches.delete(payaraServer);
+            return;
+        }
+        let state = payaraServer.getState();
+        let alive = await this.isAlive(payaraServer, javaProcesses);
+        if (state !== payaraServer.getState() || alive === payaraServer.isStarted()) {
+            this.mismatches.delete(payaraServer);
+            return;
+        }
+        let mismatches = (this.mismatches.get(payaraServer) || 0) + 1;
+        if (mismatches < ServerStateWatcher.MAX_MISMATCHES) {
+            this.mismatches.set(payaraServer, mismatches);
+            return;
+        }
+        this.mismatches.delete(payaraServer);
+        if (alive) {
+            payaraServer.setStarted(true);
+            payaraServer.connectOutput();
+            payaraServer.getOutputChannel().appendLine(`${payaraServer.getName()} is running.`);
+            vscode.commands.executeCommand('payara.server.refresh');
+            payaraServer.reloadApplications();
+        } else {
+            payaraServer.setState(InstanceState.STOPPED);
+            payaraServer.setDebug(false);
+            payaraServer.disconnectOutput();
+            vscode.commands.executeCommand('payara.server.refresh');
+            this.notifyStopped(payaraServer);
+        }
+    }
+
+    private async isAlive(payaraServer: PayaraServerInstance, javaProcesses: Map<string, Promise<string | undefined>>): Promise<boolean> {
+        if (payaraServer instanceof PayaraLocalServerInstance) {
+            let alive = await this.isProcessAlive(payaraServer, javaProcesses);
+            if (alive !== undefined) {
+                return alive;
+            }
+        }
+        try {
+            await new AsadminClient(payaraServer).locations({ timeout: ServerStateWatcher.REQUEST_TIMEOUT });
+            return true;
+        } catch (error) {
+            // any response, e.g an authentication failure, means the server is up
+            return error instanceof AsadminError && error.statusCode !== undefined;
+        }
+    }
+
+    /**
+     * @returns true if the domain process is running, undefined if the Java
+     *          Process executable is not available.
+     */
+    private async isProcessAlive(payaraServer: PayaraLocalServerInstance, javaProcesses: Map<string, Promise<string | undefined>>): Promise<boolean | undefined> {
+        let javaProcessExe = payaraServer.getJavaProcessExecutable();
+        if (!javaProcessExe) {
+            return undefined;
+        }
+        let output = javaProcesses.get(javaProcessExe);
+        if (!output) {
+            output = PayaraLocalServerInstance.listJavaProcesses(javaProcessExe);
+            javaProcesses.set(javaProcessExe, output);
+        }
+        let processes = await output;
+        return processes !== undefined ? payaraServer.findDomainProcessId(processes) !== undefined : undefined;
+    }
+
+    private async notifyStopped(payaraServer: PayaraServerInstance): Promise<void> {
+        let showLog = 'Show Log';
+        let start = 'Start';
+        let actions = payaraServer instanceof PayaraLocalServerInstance ? [start, showLog] : [showLog];
+        let message = payaraServer instanceof PayaraRemoteServerInstance ?
+            `Payara Server ${payaraServer.getName()} is no longer reachable.` :
+            `Payara Server ${payaraServer.getName()} stopped unexpectedly.`;
+        let action = await vscode.window.showWarningMessage(message, ...actions);
+        if (action === showLog) {
+            payaraServer.getOutputChannel().show(false);
+        } else if (action === start) {
+            vscode.commands.executeCommand('payara.server.start', payaraServer);
+        }
+    }
+
+}
@@ -0,0 +1,148 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { PayaraServerInstance } from "../PayaraServerInstance";
+import { PayaraServerInstanceController } from "../PayaraServerInstanceController";
+import { AsadminClient } from "../endpoints/AsadminClient";
+import { AsadminError } from "../endpoints/AsadminError";
+import { ViewLogReader } from "../endpoints/ViewLogReader";
+import { ServerUtils } from "../tooling/utils/ServerUtils";
+import { ProjectOutputWindowProvider } from "../../project/ProjectOutputWindowProvider";
+import { DeploymentGroup } from "./DeploymentGroup";
+import { ServerInstance } from "./ServerInstance";
+
+/**
+ * Context actions of the instances and deployment groups of a running
+ * Payara Server, and the deploy target of the server.
+ */
+export class ClusterController implements vscode.Disposable {
+
+    /**
+     * Log followers of the instances keyed by output channel name.
+     */
+    private logFollowers: Map<string, NodeJS.Timeout> = new Map<string, NodeJS.Timeout>();
+
+    constructor(private controller: PayaraServerInstanceController) {
+    }
+
+    public async startInstance(instance: ServerInstance): Promise<void> {
+        await this.runTargetCommand(instance.payaraServer, 'start-instance', instance.name, `Starting the instance ${instance.name}`);
+    }
+
+    public async stopInstance(instance: ServerInstance): Promise<void> {
+        await this.runTargetCommand(instance.payaraServer, 'stop-instance', instance.name, `Stopping the instance ${instance.name}`);
+    }
+
+    public async startDeploymentGroup(deploymentGroup: DeploymentGroup): Promise<void> {
+        await this.runTargetCommand(deploymentGroup.payaraServer, 'start-deployment-group', deploymentGroup.name, `Starting the deployment group ${deploymentGroup.name}`);
+    }
+
+    public async stopDeploymentGroup(deploymentGroup: DeploymentGroup): Promise<void> {
+        await this.runTargetCommand(deploymentGroup.payaraServer, 'stop-deployment-group', deploymentGroup.name, `Stopping the deployment group ${deploymentGroup.name}`);
+    }
+
+    /**
+     * Follows the server.log of the instance in its own output channel until
+     * the DAS is stopped or the extension is deactivated.
+     */
+    public async openInstanceLog(instance: ServerInstance): Promise<void> {
+        let payaraServer = instance.payaraServer;
+        let channelName = `${payaraServer.getName()} - ${instance.name}`;
+        let outputChannel = ProjectOutputWindowProvider.getInstance().get(channelName);
+        outputChannel.show(false);
+        if (this.logFollowers.has(channelName)) {
+            return;
+        }
+        let reader = new ViewLogReader(new AsadminClient(payaraServer), instance.name);
+        let reading = false;
+        let follow = async () => {
+            if (!payaraServer.isStarted()) {
+                this.stopLogFollower(channelName);
+                return;
+            }
+            if (reading) {
+                return;
+            }
+            reading = true;
+            try {
+                let log = await reader.read();
+                if (log.length > 0) {
+                    outputChannel.append(log);
+                }
+            } catch (error) {
+                console.log(`Unable to read the log of the instance ${instance.name}: ${AsadminError.getMessage(error)}`);
+            } finally {
+                reading = false;
+            }
+        };
+        this.logFollowers.set(channelName, setInterval(follow, ServerUtils.DEFAULT_WAIT));
+        follow();
+    }
+
+    /**
+     * Selects the instance, deployment group or the DAS the applications of
+     * the server are deployed to.
+     */
+    public async selectDeployTarget(payaraServer: PayaraServerInstance): Promise<void> {
+        if (!payaraServer.isStarted()) {
+            vscode.window.showErrorMessage('Payara Server instance not running.');
+            return;
+        }
+        let target = await this.controller.selectTarget(payaraServer, `Select the deploy target, currently ${payaraServer.getDeployTarget()}`);
+        if (!target || target === payaraServer.getDeployTarget()) {
+            return;
+        }
+        payaraServer.setDeployTarget(target);
+        this.controller.updateConfig();
+        payaraServer.reloadApplications();
+        vscode.window.showInformationMessage(`Deploy target [${target}] updated successfully.`);
+    }
+
+    public dispose(): void {
+        this.logFollowers.forEach(follower => clearInterval(follower));
+        this.logFollowers.clear();
+    }
+
+    private stopLogFollower(channelName: string): void {
+        let follower = this.logFollowers.get(channelName);
+        if (follower) {
+            clearInterval(follower);
+            this.logFollowers.delete(channelName);
+        }
+    }
+
+    private async runTargetCommand(payaraServer: PayaraServerInstance, command: string, target: string, title: string): Promise<void> {
+        let outputChannel = payaraServer.getOutputChannel();
+        try {
+            let report = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: title
+            }, () => new AsadminClient(payaraServer).invoke(command, { DEFAULT: target }, { timeout: 0 }));
+            outputChannel.appendLine(report.toText());
+        } catch (error) {
+            if (error instanceof AsadminError && error.report) {
+                outputChannel.appendLine(error.report.toText());
+            }
+            vscode.window.showErrorMessage(`Unable to run ${command} on ${target}. ` + AsadminError.getMessage(error));
+        }
+        this.controller.refreshServerList();
+    }
+
+}
@@ -0,0 +1,60 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { PayaraServerInstance } from "../PayaraServerInstance";
+import { AsadminClient } from "../endpoints/AsadminClient";
+import { AsadminError } from "../endpoints/AsadminError";
+import { DeploymentGroup } from "./DeploymentGroup";
+import { ServerInstance } from "./ServerInstance";
+
+/**
+ * "Instances" node of a running server, lists the deployment groups and the
+ * instances of the domain.
+ */
+export class ClusterNode extends vscode.TreeItem {
+
+    constructor(public payaraServer: PayaraServerInstance) {
+        super('Instances', vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `${payaraServer.getName()}/instances`;
+        this.iconPath = new vscode.ThemeIcon('server-environment');
+        this.contextValue = 'payara-instances';
+    }
+
+    public async fetchChildren(): Promise<vscode.TreeItem[]> {
+        let client: AsadminClient = new AsadminClient(this.payaraServer);
+        let deploymentGroups: string[] = [];
+        try {
+            deploymentGroups = await client.listDeploymentGroups();
+        } catch (error) {
+            console.log(`Unable to list the deployment groups of ${this.payaraServer.getName()}: ${AsadminError.getMessage(error)}`);
+        }
+        try {
+            let instances = await client.listInstances();
+            return [
+                ...deploymentGroups.map(name => new DeploymentGroup(this.payaraServer, name)),
+                ...instances.map(instance => new ServerInstance(this.payaraServer, instance, this.id))
+            ];
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to list the instances. ' + AsadminError.getMessage(error));
+            return [];
+        }
+    }
+
+}
@@ -0,0 +1,51 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { PayaraServerInstance } from "../PayaraServerInstance";
+import { InstanceSummary } from "../endpoints/AsadminClient";
+
+/**
+ * Standalone or deployment group instance managed by the DAS of a
+ * registered Payara Server.
+ */
+export class ServerInstance extends vscode.TreeItem {
+
+    public name: string;
+
+    public running: boolean;
+
+    /**
+     * @param parentId id of the parent node, an instance may be listed under
+     *                 several deployment groups.
+     */
+    constructor(
+        public payaraServer: PayaraServerInstance,
+        instance: InstanceSummary,
+        parentId?: string) {
+        super(instance.name, vscode.TreeItemCollapsibleState.None);
+        this.name = instance.name;
+        this.running = instance.running;
+        this.id = `${parentId ? parentId : payaraServer.getName()}/instance/${instance.name}`;
+        this.description = instance.status;
+        this.iconPath = new vscode.ThemeIcon(instance.running ? 'vm-running' : 'vm-outline');
+        this.contextValue = instance.running ? 'payara-instance-running' : 'payara-instance-stopped';
+    }
+
+}
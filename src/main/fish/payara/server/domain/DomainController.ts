@@ -0,0 +1,417 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { QuickPickItem } from "vscode";
+import * as isPort from 'validator/lib/isPort';
+import * as ui from "../../../../UI";
+import { PayaraInstanceProvider } from "../PayaraInstanceProvider";
+import { PayaraLocalServerInstance } from "../PayaraLocalServerInstance";
+import { PayaraServerInstanceController } from "../PayaraServerInstanceController";
+import { AsadminError } from "../endpoints/AsadminError";
+import { PortBaseWriter } from "../start/PortBaseWriter";
+import { PortChecker } from "../start/PortChecker";
+import { PortReader } from "../start/PortReader";
+import { ServerUtils } from "../tooling/utils/ServerUtils";
+import { ProjectOutputWindowProvider } from "../../project/ProjectOutputWindowProvider";
+import { CreateDomainOptions, LocalDomainManager } from "./LocalDomainManager";
+
+const CREATE_TITLE = 'Create Domain';
+const PRODUCTION_TEMPLATE = 'production-domain.jar';
+const BROWSE_LABEL = 'Browse the Payara Server...';
+const DEFAULT_PORTS_LABEL = 'Default ports';
+const PORT_BASE_LABEL = 'Port base';
+const CUSTOM_PORTS_LABEL = 'Custom ports';
+const DEVELOPMENT_PROFILE_LABEL = 'Development';
+const PRODUCTION_PROFILE_LABEL = 'Production';
+const CUSTOM_TEMPLATE_LABEL = 'Custom template...';
+
+/**
+ * Creates and deletes the domains of the local Payara Server installations,
+ * independently of the server registration.
+ */
+export class DomainController {
+
+    constructor(
+        private instanceProvider: PayaraInstanceProvider,
+        private controller: PayaraServerInstanceController) {
+    }
+
+    public async createDomain(payaraServer?: PayaraLocalServerInstance): Promise<void> {
+        let serverPath = payaraServer ? payaraServer.getPath() : await this.selectInstallation('Select the Payara Server installation of the new domain');
+        if (!serverPath) {
+            return;
+        }
+        let manager = new LocalDomainManager(serverPath);
+        let state: Partial<DomainState> = { serverPath: serverPath };
+        await ui.MultiStepInput.run(input => this.domainName(1, 4, input, state, manager));
+        if (!state.domainName || !state.username) {
+            return;
+        }
+        let password = await vscode.window.showInputBox({
+            prompt: `Enter the admin password of the domain ${state.domainName}, leave empty for no password`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (password === undefined) {
+            return;
+        }
+        let masterPassword = await this.selectMasterPassword();
+        if (masterPassword === undefined) {
+            return;
+        }
+        let options: CreateDomainOptions = {
+            domainName: state.domainName,
+            username: state.username,
+            password: password,
+            template: state.template,
+            masterPassword: masterPassword ? masterPassword : undefined
+        };
+        if (state.portBase) {
+            options.portBase = state.portBase;
+        } else {
+            options.adminPort = state.adminPort;
+            options.instancePort = state.httpPort;
+        }
+        try {
+            await manager.createDomain(options, ProjectOutputWindowProvider.getInstance().get(state.domainName));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Unable to create the domain ${state.domainName}: ` + AsadminError.getMessage(error));
+            return;
+        }
+        this.instanceProvider.addUnlistedServer(new PayaraLocalServerInstance(state.domainName, state.domainName, serverPath));
+        let register = 'Register Server';
+        let item = await vscode.window.showInformationMessage(`Domain ${state.domainName} created successfully.`, register);
+        if (item === register) {
+            await this.registerServer(serverPath, state.domainName, state.username, password);
+        }
+    }
+
+    public async deleteDomain(payaraServer?: PayaraLocalServerInstance): Promise<void> {
+        let serverPath = payaraServer ? payaraServer.getPath() : await this.selectInstallation('Select the Payara Server installation of the domain');
+        if (!serverPath) {
+            return;
+        }
+        let manager = new LocalDomainManager(serverPath);
+        let domains = manager.listDomains();
+        if (domains.length === 0) {
+            vscode.window.showErrorMessage(`No domain found in ${manager.getDomainsDir()}.`);
+            return;
+        }
+        let pick = await vscode.window.showQuickPick(
+            domains.map(domain => ({ label: domain, description: this.getRegisteredServerName(serverPath, domain) })),
+            { placeHolder: 'Select the domain to delete' }
+        );
+        if (!pick) {
+            return;
+        }
+        let domainName = pick.label;
+        let registeredServer = this.getRegisteredServerName(serverPath, domainName);
+        if (registeredServer) {
+            vscode.window.showErrorMessage(`Domain ${domainName} is used by the Payara Server ${registeredServer}, please remove the server first.`);
+            return;
+        }
+        if (await this.isRunning(manager, domainName)) {
+            vscode.window.showErrorMessage(`Domain ${domainName} is running, please stop it first.`);
+            return;
+        }
+        let item = await vscode.window.showWarningMessage(
+            `Are you sure that you want to delete the domain ${domainName} and all its content from ${manager.getDomainsDir()}?`,
+            { modal: true }, 'Delete'
+        );
+        if (!item) {
+            return;
+        }
+        try {
+            await manager.deleteDomain(domainName, ProjectOutputWindowProvider.getInstance().get(domainName));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Unable to delete the domain ${domainName}: ` + AsadminError.getMessage(error));
+            return;
+        }
+        this.instanceProvider.removeUnlistedDomain(serverPath, domainName, manager.listDomains()[0]);
+        this.controller.refreshServerList();
+        vscode.window.showInformationMessage(`Domain ${domainName} deleted successfully.`);
+    }
+
+    /**
+     * @returns the installation path picked from the registered and unlisted
+     * local servers, or browsed.
+     */
+    private async selectInstallation(placeHolder: string): Promise<string | undefined> {
+        let paths = new Set<string>();
+        for (let server of this.instanceProvider.getServers()) {
+            if (server instanceof PayaraLocalServerInstance) {
+                paths.add(server.getPath());
+            }
+        }
+        for (let server of this.instanceProvider.getUnlistedServers()) {
+            paths.add(server.getPath());
+        }
+        let items: QuickPickItem[] = Array.from(paths).map(serverPath => ({ label: serverPath }));
+        items.push({ label: BROWSE_LABEL });
+        let pick = await vscode.window.showQuickPick(items, { placeHolder: placeHolder });
+        if (!pick) {
+            return undefined;
+        }
+        if (pick.label !== BROWSE_LABEL) {
+            return pick.label;
+        }
+        let fileUris = await vscode.window.showOpenDialog({
+            defaultUri: vscode.workspace.rootPath ? vscode.Uri.file(vscode.workspace.rootPath) : undefined,
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Select Payara Server'
+        });
+        if (!fileUris || fileUris.length === 0) {
+            return undefined;
+        }
+        if (!ServerUtils.isValidServerPath(fileUris[0].fsPath)) {
+            vscode.window.showErrorMessage("Selected Payara Server path is invalid.");
+            return undefined;
+        }
+        return fileUris[0].fsPath;
+    }
+
+    private getRegisteredServerName(serverPath: string, domainName: string): string | undefined {
+        let server = this.instanceProvider.getServers().find(server => server instanceof PayaraLocalServerInstance
+            && path.resolve(server.getPath()) === path.resolve(serverPath)
+            && server.getDomainName() === domainName);
+        return server ? server.getName() : undefined;
+    }
+
+    /**
+     * A domain is considered running when its admin port is in use.
+     */
+    private async isRunning(manager: LocalDomainManager, domainName: string): Promise<boolean> {
+        let adminPort: number;
+        try {
+            adminPort = new PortReader(manager.getDomainXmlPath(domainName), ServerUtils.DAS_NAME).getAdminPort();
+        } catch (error) {
+            console.error(error);
+            return false;
+        }
+        return adminPort > 0 && !await PortChecker.isAvailable(adminPort);
+    }
+
+    private async registerServer(serverPath: string, domainName: string, username: string, password: string): Promise<void> {
+        let serverName = await vscode.window.showInputBox({
+            prompt: 'Enter the name of the Payara Server',
+            value: this.instanceProvider.getServerByName(domainName) ? '' : domainName,
+            ignoreFocusOut: true,
+            validateInput: value => {
+                if (value.trim().length === 0) {
+                    return 'Server name cannot be empty';
+                } else if (this.instanceProvider.getServerByName(value.trim())) {
+                    return 'Payara Server already exist with the given name, please re-enter';
+                }
+                return undefined;
+            }
+        });
+        if (!serverName) {
+            return;
+        }
+        let payaraServer = new PayaraLocalServerInstance(serverName.trim(), domainName, serverPath);
+        payaraServer.setUsername(username);
+        await payaraServer.setPassword(password);
+        this.instanceProvider.addServer(payaraServer);
+        this.controller.refreshServerList();
+    }
+
+    /**
+     * @returns the custom master password, an empty string for the default
+     * one or undefined if cancelled.
+     */
+    private async selectMasterPassword(): Promise<string | undefined> {
+        let defaultItem = { label: 'Default master password', description: ServerUtils.MASTER_PASSWORD };
+        let customItem = { label: 'Custom master password', description: 'saved in the domain' };
+        let pick = await vscode.window.showQuickPick([defaultItem, customItem], {
+            placeHolder: 'Select the master password of the domain keystores',
+            ignoreFocusOut: true
+        });
+        if (!pick) {
+            return undefined;
+        }
+        if (pick === defaultItem) {
+            return '';
+        }
+        return vscode.window.showInputBox({
+            prompt: 'Enter the master password',
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => value.length < 6 ? 'Master password must have at least 6 characters.' : undefined
+        });
+    }
+
+    private async domainName(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<DomainState>, manager: LocalDomainManager) {
+        let domains = manager.listDomains();
+        state.domainName = await input.showInputBox({
+            title: CREATE_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            value: state.domainName || '',
+            prompt: `Enter the name of the new domain in ${manager.getDomainsDir()}`,
+            validate: async value => {
+                if (value.trim().length === 0) {
+                    return 'Domain name cannot be empty.';
+                } else if (!/^[a-zA-Z0-9_-]+$/.test(value.trim())) {
+                    return 'Please enter the valid Domain name.';
+                } else if (domains.indexOf(value.trim()) > -1 || fs.existsSync(path.join(manager.getDomainsDir(), value.trim()))) {
+                    return 'Domain already exist, please enter a unique name.';
+                }
+                return undefined;
+            },
+            shouldResume: this.controller.shouldResume
+        });
+        state.domainName = state.domainName.trim();
+        return (input: ui.MultiStepInput) => this.selectProfile(step + 1, totalSteps, input, state, manager);
+    }
+
+    private async selectProfile(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<DomainState>, manager: LocalDomainManager) {
+        let items: QuickPickItem[] = [{ label: DEVELOPMENT_PROFILE_LABEL, description: 'default domain template' }];
+        let productionTemplate = manager.getTemplate(PRODUCTION_TEMPLATE);
+        if (productionTemplate) {
+            items.push({ label: PRODUCTION_PROFILE_LABEL, description: PRODUCTION_TEMPLATE });
+        }
+        items.push({ label: CUSTOM_TEMPLATE_LABEL, description: 'domain template jar' });
+        let pick = await input.showQuickPick({
+            title: CREATE_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            placeholder: 'Select the domain profile',
+            items: items,
+            shouldResume: this.controller.shouldResume
+        });
+        if (pick.label === PRODUCTION_PROFILE_LABEL) {
+            state.template = productionTemplate;
+        } else if (pick.label === CUSTOM_TEMPLATE_LABEL) {
+            let fileUris = await vscode.window.showOpenDialog({
+                defaultUri: vscode.Uri.file(state.serverPath),
+                canSelectFiles: true,
+                canSelectFolders: false,
+                canSelectMany: false,
+                filters: { 'Domain template': ['jar'] },
+                openLabel: 'Select Domain Template'
+            });
+            if (!fileUris || fileUris.length === 0) {
+                return;
+            }
+            state.template = fileUris[0].fsPath;
+        } else {
+            state.template = undefined;
+        }
+        return (input: ui.MultiStepInput) => this.selectPorts(step + 1, totalSteps, input, state);
+    }
+
+    private async selectPorts(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<DomainState>) {
+        let pick = await input.showQuickPick({
+            title: CREATE_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            placeholder: 'Select the ports of the domain',
+            items: [
+                { label: DEFAULT_PORTS_LABEL, description: `admin port ${ServerUtils.DEFAULT_ADMIN_PORT} and HTTP port ${ServerUtils.DEFAULT_HTTP_PORT}` },
+                { label: PORT_BASE_LABEL, description: 'all the ports are assigned from a port base' },
+                { label: CUSTOM_PORTS_LABEL, description: 'admin and HTTP ports' }
+            ],
+            shouldResume: this.controller.shouldResume
+        });
+        state.portBase = undefined;
+        state.adminPort = undefined;
+        state.httpPort = undefined;
+        if (pick.label === PORT_BASE_LABEL) {
+            return (input: ui.MultiStepInput) => this.portBase(step + 1, totalSteps + 1, input, state);
+        } else if (pick.label === CUSTOM_PORTS_LABEL) {
+            return (input: ui.MultiStepInput) => this.customPorts(step + 1, totalSteps + 2, input, state);
+        }
+        return (input: ui.MultiStepInput) => this.username(step + 1, totalSteps, input, state);
+    }
+
+    private async portBase(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<DomainState>) {
+        let suggestedPortBase = await PortChecker.suggestPortBase();
+        let portBase = await input.showInputBox({
+            title: CREATE_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            value: suggestedPortBase ? suggestedPortBase.toString() : '',
+            prompt: `Enter the port base, the admin port becomes port base + ${PortBaseWriter.ADMIN_PORT_OFFSET} and HTTP port port base + ${PortBaseWriter.HTTP_PORT_OFFSET}`,
+            validate: async value => {
+                let portBase = Number(value);
+                if (!/^\d+$/.test(value.trim()) || portBase < 1024 || portBase > 65435) {
+                    return 'Port base must be a number between 1024 and 65435.';
+                }
+                return undefined;
+            },
+            shouldResume: this.controller.shouldResume
+        });
+        state.portBase = parseInt(portBase.trim(), 10);
+        return (input: ui.MultiStepInput) => this.username(step + 1, totalSteps, input, state);
+    }
+
+    private async customPorts(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<DomainState>) {
+        let validatePort = async (value: string) => isPort.default(value.trim()) ? undefined : 'Please enter a valid port number.';
+        let adminPort = await input.showInputBox({
+            title: CREATE_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            value: String(ServerUtils.DEFAULT_ADMIN_PORT),
+            prompt: 'Enter the admin port',
+            validate: validatePort,
+            shouldResume: this.controller.shouldResume
+        });
+        let httpPort = await input.showInputBox({
+            title: CREATE_TITLE,
+            step: step + 1,
+            totalSteps: totalSteps,
+            value: String(ServerUtils.DEFAULT_HTTP_PORT),
+            prompt: 'Enter the HTTP port',
+            validate: validatePort,
+            shouldResume: this.controller.shouldResume
+        });
+        state.adminPort = parseInt(adminPort.trim(), 10);
+        state.httpPort = parseInt(httpPort.trim(), 10);
+        return (input: ui.MultiStepInput) => this.username(step + 2, totalSteps, input, state);
+    }
+
+    private async username(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<DomainState>) {
+        let username = await input.showInputBox({
+            title: CREATE_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            value: state.username || ServerUtils.DEFAULT_USERNAME,
+            prompt: 'Enter the admin username',
+            validate: async value => value.trim().length === 0 ? 'Username cannot be empty.' : undefined,
+            shouldResume: this.controller.shouldResume
+        });
+        state.username = username.trim();
+    }
+
+}
+
+interface DomainState {
+    serverPath: string;
+    domainName: string;
+    template: string;
+    portBase: number;
+    adminPort: number;
+    httpPort: number;
+    username: string;
+}
@@ -0,0 +1,168 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as cp from 'child_process';
+import { ChildProcess } from 'child_process';
+import * as fs from "fs";
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as tmp from "tmp";
+import { FileResult } from 'tmp';
+import * as vscode from 'vscode';
+import { JDKVersion } from '../start/JDKVersion';
+import { JavaUtils } from '../tooling/utils/JavaUtils';
+import { ServerUtils } from '../tooling/utils/ServerUtils';
+
+/**
+ * Runs the domain commands of the local asadmin CLI (admin-cli.jar) against a
+ * Payara Server installation.
+ */
+export class LocalDomainManager {
+
+    constructor(private serverPath: string) {
+    }
+
+    public getDomainsDir(): string {
+        return path.join(this.serverPath, 'glassfish', 'domains');
+    }
+
+    public listDomains(): string[] {
+        let domainsDir = this.getDomainsDir();
+        if (!fs.existsSync(domainsDir)) {
+            return [];
+        }
+        return fse.readdirSync(domainsDir)
+            .filter(domain => fs.existsSync(path.join(domainsDir, domain, 'config', 'domain.xml')));
+    }
+
+    public getDomainXmlPath(domainName: string): string {
+        return path.join(this.getDomainsDir(), domainName, 'config', 'domain.xml');
+    }
+
+    /**
+     * @returns the domain templates shipped with the installation, e.g
+     * glassfish/common/templates/gf/production-domain.jar
+     */
+    public getTemplate(name: string): string | undefined {
+        let template = path.join(this.serverPath, 'glassfish', 'common', 'templates', 'gf', name);
+        return fs.existsSync(template) ? template : undefined;
+    }
+
+    public async createDomain(options: CreateDomainOptions, outputChannel: vscode.OutputChannel): Promise<void> {
+        let username = options.username ? options.username : ServerUtils.DEFAULT_USERNAME;
+        let password = options.password ? options.password : ServerUtils.DEFAULT_PASSWORD;
+        let args: Array<string> = ["--user", username];
+        let passwordFile: FileResult | undefined;
+        if (password !== '' || options.masterPassword) {
+            passwordFile = this.createTempPasswordFile(password, options.masterPassword);
+            args.push("--passwordfile", passwordFile.name);
+        }
+        args.push("create-domain");
+        if (password === '') {
+            args.push("--nopassword");
+        }
+        args.push("--domaindir", this.getDomainsDir());
+        if (options.portBase) {
+            args.push("--portbase", String(options.portBase));
+        } else {
+            args.push("--adminport", String(options.adminPort ? options.adminPort : ServerUtils.DEFAULT_ADMIN_PORT));
+            args.push("--instanceport", String(options.instancePort ? options.instancePort : ServerUtils.DEFAULT_HTTP_PORT));
+        }
+        if (options.template) {
+            args.push("--template", options.template);
+        }
+        if (options.masterPassword) {
+            // the domain is started without prompting for the master password
+            args.push("--usemasterpassword=true", "--savemasterpassword=true");
+        }
+        args.push(options.domainName);
+        try {
+            await this.runAsadmin('create-domain', args, outputChannel);
+        } finally {
+            if (passwordFile) {
+                passwordFile.removeCallback();
+            }
+        }
+    }
+
+    public async deleteDomain(domainName: string, outputChannel: vscode.OutputChannel): Promise<void> {
+        await this.runAsadmin('delete-domain', ["delete-domain", "--domaindir", this.getDomainsDir(), domainName], outputChannel);
+    }
+
+    private runAsadmin(command: string, args: Array<string>, outputChannel: vscode.OutputChannel): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            let javaHome: string | undefined = JDKVersion.getDefaultJDKHome();
+            if (!javaHome) {
+                throw new Error("Java home path not found.");
+            }
+            let javaVmExe: string = JavaUtils.javaVmExecutableFullPath(javaHome);
+            let process: ChildProcess = cp.spawn(
+                javaVmExe,
+                ["-client", "-jar", path.join(this.serverPath, "glassfish", "modules", "admin-cli.jar"), ...args],
+                { cwd: this.serverPath }
+            );
+            outputChannel.show(false);
+            outputChannel.append(`Running the ${command} asadmin command ... \n`);
+            let logCallback = (data: string | Buffer): void => outputChannel.append(data.toString());
+            if (process.stdout !== null) {
+                process.stdout.on('data', logCallback);
+            }
+            if (process.stderr !== null) {
+                process.stderr.on('data', logCallback);
+            }
+            process.on('error', (err: Error) => {
+                console.log('error: ' + err.message);
+                reject(err);
+            });
+            process.on('exit', (code: number) => {
+                if (code === 0) {
+                    resolve();
+                } else {
+                    reject(new Error(`Command ${command} execution failed.`));
+                }
+            });
+        });
+    }
+
+    private createTempPasswordFile(password: string, masterPassword?: string): FileResult {
+        var tmpFile = tmp.fileSync({ prefix: 'payara-password-', postfix: '.txt' });
+        let content = "AS_ADMIN_ADMINPASSWORD=" + password + '\n'; // to create domain
+        content += "AS_ADMIN_PASSWORD=" + password + '\n'; // to start domain
+        content += "AS_ADMIN_MASTERPASSWORD=" + (masterPassword ? masterPassword : ServerUtils.MASTER_PASSWORD);
+        if (fs.existsSync(tmpFile.name)) {
+            fs.writeFileSync(tmpFile.name, content);
+        }
+        return tmpFile;
+    }
+
+}
+
+export interface CreateDomainOptions {
+    domainName: string;
+    adminPort?: number;
+    instancePort?: number;
+    /** Overrides the admin and instance ports. */
+    portBase?: number;
+    /** Domain template jar, the default template if not set. */
+    template?: string;
+    username?: string;
+    password?: string;
+    /** Custom master password, saved in the domain. */
+    masterPassword?: string;
+}
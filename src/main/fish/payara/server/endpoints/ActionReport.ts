@@ -0,0 +1,141 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * A single <message-part> of an asadmin action report, with its properties
+ * and nested message parts.
+ *
+ * e.g
+ * <message-part message="Command executed successfully">
+ *     <property name="Base-Root" value="/opt/payara/glassfish"/>
+ *     <message-part message="..."/>
+ * </message-part>
+ */
+export class MessagePart {
+
+    public message: string;
+
+    public properties: Map<string, string> = new Map<string, string>();
+
+    public children: Array<MessagePart> = new Array<MessagePart>();
+
+    constructor(part: any) {
+        this.message = part && part.$ && part.$.message ? part.$.message : '';
+        if (part && Array.isArray(part.property)) {
+            for (let property of part.property) {
+                if (property.$ && property.$.name) {
+                    this.properties.set(property.$.name, property.$.value);
+                }
+            }
+        }
+        if (part && Array.isArray(part['message-part'])) {
+            for (let child of part['message-part']) {
+                this.children.push(new MessagePart(child));
+            }
+        }
+    }
+
+    public getProperty(name: string): string | undefined {
+        return this.properties.get(name);
+    }
+
+}
+
+/**
+ * Parsed <action-report> returned by the asadmin REST adapter.
+ */
+export class ActionReport {
+
+    public exitCode: string;
+
+    public description: string;
+
+    public parts: Array<MessagePart> = new Array<MessagePart>();
+
+    constructor(public command: string, public headers: IncomingHttpHeaders, report: any) {
+        this.exitCode = report && report.$ ? report.$['exit-code'] : '';
+        this.description = report && report.$ && report.$.description ? report.$.description : '';
+        if (report && Array.isArray(report['message-part'])) {
+            for (let part of report['message-part']) {
+                this.parts.push(new MessagePart(part));
+            }
+        }
+    }
+
+    public isSuccess(): boolean {
+        return this.exitCode === 'SUCCESS' || this.exitCode === 'WARNING';
+    }
+
+    /**
+     * @returns the top level message part, empty if the report has none.
+     */
+    public getTopPart(): MessagePart {
+        return this.parts.length > 0 ? this.parts[0] : new MessagePart(undefined);
+    }
+
+    public getMessage(): string {
+        return this.getTopPart().message;
+    }
+
+    public getProperties(): Map<string, string> {
+        return this.getTopPart().properties;
+    }
+
+    public getProperty(name: string): string | undefined {
+        return this.getTopPart().getProperty(name);
+    }
+
+    /**
+     * @returns the messages of the nested parts of the top level message
+     * part, e.g the pool names of list-jdbc-connection-pools.
+     */
+    public getChildMessages(): string[] {
+        return this.getTopPart().children
+            .map(child => child.message)
+            .filter(message => message.length > 0);
+    }
+
+    /**
+     * Renders the report as indented plain text, the way asadmin prints it.
+     */
+    public toText(): string {
+        let lines: Array<string> = new Array<string>();
+        let append = (part: MessagePart, indent: string) => {
+            if (part.message) {
+                for (let line of part.message.split(/\r?\n/)) {
+                    lines.push(indent + line);
+                }
+            }
+            part.properties.forEach((value, name) => lines.push(`${indent}    ${name}: ${value}`));
+            for (let child of part.children) {
+                append(child, indent + '    ');
+            }
+        };
+        for (let part of this.parts) {
+            append(part, '');
+        }
+        if (lines.length === 0 && this.description) {
+            lines.push(this.description);
+        }
+        return lines.join('\n');
+    }
+
+}
@@ -0,0 +1,562 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import * as fs from 'fs';
+import * as _ from "lodash";
+import * as xml2js from 'xml2js';
+import { CancellationToken } from 'vscode';
+import { ClientRequest, IncomingHttpHeaders, IncomingMessage, OutgoingHttpHeaders, RequestOptions } from 'http';
+import { PayaraServerInstance } from "../PayaraServerInstance";
+import { PayaraCredentialStore } from "../PayaraCredentialStore";
+import { ServerUtils } from "../tooling/utils/ServerUtils";
+import { ActionReport, MessagePart } from './ActionReport';
+import { AsadminError } from './AsadminError';
+
+/**
+ * Promise based client of the Payara Server admin REST adapter.
+ * Responses are buffered completely before they are parsed.
+ */
+export class AsadminClient {
+
+    public constructor(public payaraServer: PayaraServerInstance) {
+    }
+
+    /**
+     * Executes the asadmin command and resolves with its action report.
+     * Rejects with an {@link AsadminError} if the server is unreachable,
+     * replies with an error status or the command fails.
+     *
+     * @param command    asadmin command name e.g list-applications, or an
+     *                   absolute REST path e.g /management/domain/view-log
+     * @param parameters command parameters sent as query string.
+     */
+    public async invoke(command: string, parameters?: AsadminParameters, options?: AsadminOptions): Promise<ActionReport> {
+        let response = await this.request(command, parameters, 'application/xml', options);
+        let report: ActionReport;
+        try {
+            let result = await xml2js.parseStringPromise(response.body);
+            report = new ActionReport(command, response.headers, result ? result['action-report'] : undefined);
+        } catch (error) {
+            throw new AsadminError(command, `Unable to parse the response of ${command}: ${AsadminError.getMessage(error)}`, response.statusCode);
+        }
+        if (!report.isSuccess()) {
+            let message = report.getMessage() || report.description || `Command ${command} failed.`;
+            throw new AsadminError(command, message, response.statusCode, undefined, report);
+        }
+        return report;
+    }
+
+    /**
+     * Executes the command and resolves with the raw text body,
+     * e.g. for /management/domain/view-log
+     */
+    public async invokeText(command: string, parameters?: AsadminParameters, options?: AsadminOptions): Promise<AsadminTextResponse> {
+        let response = await this.request(command, parameters, 'text/plain;charset=UTF-8', options);
+        return {
+            body: response.body,
+            headers: response.headers
+        };
+    }
+
+    /**
+     * @param target instance, deployment group or cluster, the DAS if not set.
+     */
+    public async listApplications(target?: string, options?: AsadminOptions): Promise<ApplicationSummary[]> {
+        let report = await this.invoke('list-applications', target ? { DEFAULT: target } : undefined, options);
+        let applications: ApplicationSummary[] = [];
+        report.getProperties().forEach((type, name) => applications.push({ name: name, type: type }));
+        return applications;
+    }
+
+    public async deploy(parameters: DeployParameters, options?: AsadminOptions): Promise<DeployResult> {
+        return this.deployArchive('deploy', { force: parameters.force !== false }, parameters, options);
+    }
+
+    /**
+     * Redeploys the application with the given archive, the application must
+     * be already deployed.
+     */
+    public async redeploy(parameters: DeployParameters, options?: AsadminOptions): Promise<DeployResult> {
+        return this.deployArchive('redeploy', {}, parameters, options);
+    }
+
+    public async version(options?: AsadminOptions): Promise<string> {
+        let report = await this.invoke('version', undefined, options);
+        return report.getMessage();
+    }
+
+    /**
+     * @returns the Java runtime version of the server e.g 17.0.8, undefined
+     * if the version output does not contain it.
+     */
+    public async javaVersion(options?: AsadminOptions): Promise<string | undefined> {
+        let report = await this.invoke('version', { verbose: true }, options);
+        let match = /JRE version\s+([\w.\-]+)/i.exec(report.toText());
+        return match ? match[1] : undefined;
+    }
+
+    public async locations(options?: AsadminOptions): Promise<Locations> {
+        let report = await this.invoke('__locations', undefined, options);
+        return {
+            baseRoot: report.getProperty('Base-Root'),
+            domainRoot: report.getProperty('Domain-Root'),
+            instanceRoot: report.getProperty('Instance-Root'),
+            configDir: report.getProperty('Config-Dir'),
+            server: <string>report.headers['server'],
+            properties: report.getProperties()
+        };
+    }
+
+    public async listJdbcConnectionPools(options?: AsadminOptions): Promise<string[]> {
+        let report = await this.invoke('list-jdbc-connection-pools', undefined, options);
+        return report.getChildMessages();
+    }
+
+    public async listJdbcResources(options?: AsadminOptions): Promise<string[]> {
+        let report = await this.invoke('list-jdbc-resources', undefined, options);
+        return report.getChildMessages();
+    }
+
+    public async listJvmOptions(options?: AsadminOptions): Promise<string[]> {
+        let report = await this.invoke('list-jvm-options', undefined, options);
+        return report.getChildMessages();
+    }
+
+    public async createJvmOption(value: string, options?: AsadminOptions): Promise<ActionReport> {
+        return this.invoke('create-jvm-options', { DEFAULT: AsadminClient.escapeJvmOption(value) }, options);
+    }
+
+    public async deleteJvmOption(value: string, options?: AsadminOptions): Promise<ActionReport> {
+        return this.invoke('delete-jvm-options', { DEFAULT: AsadminClient.escapeJvmOption(value) }, options);
+    }
+
+    /**
+     * @param moduleName module of an enterprise application, the
+     *                   components of the application itself if not set.
+     * @returns the modules or components e.g servlets, EJBs, given as
+     *          "name <type>" by list-sub-components.
+     */
+    public async listSubComponents(appName: string, moduleName?: string, options?: AsadminOptions): Promise<SubComponent[]> {
+        let report = await this.invoke('list-sub-components', moduleName
+            ? { appname: appName, DEFAULT: moduleName }
+            : { DEFAULT: appName }, options);
+        let components: SubComponent[] = [];
+        for (let line of AsadminClient.getListedLines(report)) {
+            let match = /^(\S+)\s+<(.+)>$/.exec(line);
+            if (match) {
+                components.push({ name: match[1], type: match[2] });
+            }
+        }
+        return components;
+    }
+
+    /**
+     * @returns the status of the application on the target e.g enabled,
+     *          disabled.
+     */
+    public async getComponentStatus(appName: string, target: string, options?: AsadminOptions): Promise<string> {
+        let report = await this.invoke('show-component-status', { DEFAULT: appName, target: target }, options);
+        let state = report.getProperty('state');
+        if (state) {
+            return state;
+        }
+        let match = /\bis\s+(\w+)/.exec(report.getMessage());
+        return match ? match[1] : report.getMessage();
+    }
+
+    /**
+     * @returns the deployment descriptors of the application modules, as
+     *          returned to the IDEs by _get-deployment-configurations.
+     */
+    public async getDeploymentDescriptors(appName: string, options?: AsadminOptions): Promise<DeploymentDescriptor[]> {
+        let report = await this.invoke('_get-deployment-configurations', { DEFAULT: appName }, options);
+        let descriptors: DeploymentDescriptor[] = [];
+        for (let part of report.getTopPart().children) {
+            part.properties.forEach((content, descriptorPath) => descriptors.push({
+                module: part.message,
+                path: descriptorPath,
+                content: content
+            }));
+        }
+        return descriptors;
+    }
+
+    /**
+     * @param target deployment group or cluster, all the instances of the
+     *               domain if not set.
+     */
+    public async listInstances(target?: string, options?: AsadminOptions): Promise<InstanceSummary[]> {
+        let report = await this.invoke('list-instances', target ? { DEFAULT: target } : undefined, options);
+        return AsadminClient.getListedLines(report).map(line => {
+            let name = line.split(/\s+/)[0];
+            let status = line.substring(name.length).trim();
+            return {
+                name: name,
+                status: status,
+                running: /\brunning\b/i.test(status) && !/\bnot running\b/i.test(status)
+            };
+        });
+    }
+
+    public async listDeploymentGroups(options?: AsadminOptions): Promise<string[]> {
+        let report = await this.invoke('list-deployment-groups', undefined, options);
+        return AsadminClient.getListedLines(report).map(line => line.split(/\s+/)[0]);
+    }
+
+    /**
+     * @returns the deployment targets of the domain, the DAS first then the
+     * deployment groups and the instances.
+     */
+    public async listTargets(options?: AsadminOptions): Promise<string[]> {
+        let targets: string[] = [ServerUtils.DAS_NAME];
+        try {
+            targets.push(...await this.listDeploymentGroups(options));
+        } catch (error) {
+            // list-deployment-groups is not available before Payara Server 5
+            console.log(`Unable to list the deployment groups: ${AsadminError.getMessage(error)}`);
+        }
+        targets.push(...(await this.listInstances(undefined, options)).map(instance => instance.name));
+        return targets;
+    }
+
+    /**
+     * Reads the attributes matching the dotted name pattern, e.g
+     * resources.jdbc-connection-pool.DerbyPool.property.*
+     *
+     * @returns the values keyed by their full dotted name.
+     */
+    public async getDottedValues(pattern: string, options?: AsadminOptions): Promise<Map<string, string>> {
+        let report = await this.invoke('get', { DEFAULT: pattern }, options);
+        let values = new Map<string, string>();
+        for (let message of report.getChildMessages()) {
+            let separator = message.indexOf('=');
+            if (separator > 0) {
+                values.set(message.substring(0, separator), message.substring(separator + 1));
+            }
+        }
+        return values;
+    }
+
+    /**
+     * Sets the attribute of the dotted name, an empty value removes a property.
+     */
+    public async setDottedValue(name: string, value: string, options?: AsadminOptions): Promise<ActionReport> {
+        return this.invoke('set', { DEFAULT: `${name}=${value}` }, options);
+    }
+
+    /**
+     * @returns the context root of the module, null if the module is not a
+     * web module.
+     */
+    public async getContextRoot(appName: string, moduleName?: string, options?: AsadminOptions): Promise<string | null> {
+        let report = await this.invoke('_get-context-root', {
+            appname: appName,
+            modulename: moduleName ? moduleName : appName
+        }, options);
+        let contextRoot = report.getProperty('contextRoot');
+        return contextRoot ? contextRoot : null;
+    }
+
+    /**
+     * @returns the distinct lines of the list commands output e.g
+     * "instance1   not running", "Nothing to list." is skipped.
+     */
+    private static getListedLines(report: ActionReport): string[] {
+        let lines: string[] = [];
+        let collect = (part: MessagePart) => {
+            for (let line of part.message.split(/\r?\n/).map(line => line.trim())) {
+                if (line.length > 0 && !/^Nothing to list/i.test(line) && lines.indexOf(line) < 0) {
+                    lines.push(line);
+                }
+            }
+            part.children.forEach(collect);
+        };
+        report.parts.forEach(collect);
+        return lines;
+    }
+
+    private async deployArchive(command: string, query: AsadminParameters, parameters: DeployParameters, options?: AsadminOptions): Promise<DeployResult> {
+        let uploadFile: string | undefined;
+        if (parameters.upload) {
+            query.upload = true;
+            uploadFile = parameters.path;
+        } else {
+            query.DEFAULT = parameters.path;
+        }
+        query.name = parameters.name;
+        if (parameters.target) {
+            query.target = parameters.target;
+        }
+        query.contextroot = parameters.contextRoot;
+        query.virtualservers = parameters.virtualServers;
+        query.precompilejsp = parameters.precompileJsp;
+        query.keepstate = parameters.keepState;
+        query.availabilityenabled = parameters.availabilityEnabled;
+        if (parameters.libraries && parameters.libraries.length > 0) {
+            query.libraries = parameters.libraries.join(',');
+        }
+        if (parameters.properties && Object.keys(parameters.properties).length > 0) {
+            query.property = AsadminClient.joinProperties(parameters.properties);
+        }
+        if (parameters.hotDeploy) {
+            query.hotDeploy = true;
+            if (parameters.metadataChanged) {
+                query.metadataChanged = true;
+            }
+            if (parameters.sourcesChanged && parameters.sourcesChanged.length > 0) {
+                query.sourcesChanged = parameters.sourcesChanged.join(',');
+            }
+        }
+        let report = await this.invoke(command, query, {
+            timeout: 0, // deployment time depends on the application
+            ...options,
+            uploadFile: uploadFile
+        });
+        let name = report.getProperty('name');
+        return {
+            name: name ? name : parameters.name,
+            report: report
+        };
+    }
+
+    /**
+     * @returns the properties in the asadmin syntax, name=value pairs
+     * separated by colons, with the colons of the values escaped.
+     */
+    private static joinProperties(properties: { [name: string]: string }): string {
+        return Object.keys(properties)
+            .map(name => `${name}=${String(properties[name]).replace(/:/g, '\\:')}`)
+            .join(':');
+    }
+
+    /**
+     * create-jvm-options and delete-jvm-options accept a colon separated
+     * list, colons of a single option have to be escaped.
+     */
+    private static escapeJvmOption(value: string): string {
+        return value.replace(/:/g, '\\:');
+    }
+
+    private request(
+        command: string,
+        parameters: AsadminParameters | undefined,
+        accept: string,
+        options: AsadminOptions = {}): Promise<AsadminResponse> {
+
+        return new Promise<AsadminResponse>((resolve, reject) => {
+            if (options.token && options.token.isCancellationRequested) {
+                reject(new AsadminError(command, `Command ${command} cancelled.`, undefined, AsadminError.CANCELLED));
+                return;
+            }
+            let secure = this.payaraServer.isSecurityEnabled();
+            let password: string = PayaraCredentialStore.getInstance().getPassword(this.payaraServer.getName());
+            let headers: OutgoingHttpHeaders = {
+                'Accept': accept
+            };
+            if (options.uploadFile) {
+                headers['Content-Type'] = 'application/zip';
+            }
+            if (!_.isEmpty(password)) {
+                headers['Authorization'] = 'Basic ' + Buffer.from(this.payaraServer.getUsername() + ':' + password).toString('base64');
+            }
+            let requestOptions: RequestOptions & https.RequestOptions = {
+                method: options.uploadFile ? 'POST' : 'GET',
+                hostname: this.payaraServer.getHost(),
+                port: this.payaraServer.getAdminPort(),
+                path: this.getPath(command, parameters),
+                headers: headers
+            };
+            if (secure || !_.isEmpty(password)) {
+                requestOptions.rejectUnauthorized = false; // permits self signed cert
+            }
+
+            let settled = false;
+            let fail = (error: AsadminError) => {
+                if (!settled) {
+                    settled = true;
+                    reject(error);
+                }
+            };
+            let callback = (response: IncomingMessage) => {
+                if (response.statusCode === 302 && !secure) {
+                    response.resume();
+                    settled = true;
+                    this.payaraServer.setSecurityEnabled(true);
+                    this.request(command, parameters, accept, options).then(resolve, reject); // retry on https redirect
+                    return;
+                }
+                let chunks: Buffer[] = [];
+                response.on('data', (chunk: Buffer) => chunks.push(chunk));
+                response.on('error', (err: any) => fail(new AsadminError(command, err.message, response.statusCode, err.code)));
+                response.on('end', () => {
+                    if (settled) {
+                        return;
+                    }
+                    let body = Buffer.concat(chunks).toString('utf8');
+                    if (response.statusCode === 200) {
+                        settled = true;
+                        resolve({ statusCode: 200, headers: response.headers, body: body });
+                    } else {
+                        fail(new AsadminError(command,
+                            `Error in calling endpoint: ${command}, Response Code: ${response.statusCode}`,
+                            response.statusCode));
+                    }
+                });
+            };
+
+            let request: ClientRequest = (secure || !_.isEmpty(password))
+                ? https.request(requestOptions, callback)
+                : http.request(requestOptions, callback);
+
+            request.on('error', (err: any) => {
+                if (err instanceof AsadminError) {
+                    fail(err);
+                } else {
+                    fail(new AsadminError(command, err.message, undefined, err.code));
+                }
+            });
+            let timeout = options.timeout !== undefined ? options.timeout : ServerUtils.DEFAULT_REQUEST_TIMEOUT;
+            if (timeout > 0) {
+                request.setTimeout(timeout, () => request.destroy(
+                    new AsadminError(command, `Command ${command} timed out after ${timeout} ms.`, undefined, AsadminError.TIMEOUT)
+                ));
+            }
+            if (options.token) {
+                let cancellation = options.token.onCancellationRequested(() => request.destroy(
+                    new AsadminError(command, `Command ${command} cancelled.`, undefined, AsadminError.CANCELLED)
+                ));
+                request.on('close', () => cancellation.dispose());
+            }
+            if (options.uploadFile) {
+                let upload = fs.createReadStream(options.uploadFile);
+                upload.on('error', (err: any) => request.destroy(new AsadminError(command, err.message, undefined, err.code)));
+                upload.pipe(request);
+            } else {
+                request.end();
+            }
+        });
+    }
+
+    private getPath(command: string, parameters?: AsadminParameters): string {
+        let path = command.startsWith('/') ? command : '/__asadmin/' + command;
+        let query: string[] = [];
+        if (parameters) {
+            for (let name of Object.keys(parameters)) {
+                let value = parameters[name];
+                if (value === undefined) {
+                    continue;
+                }
+                for (let item of (Array.isArray(value) ? value : [value])) {
+                    query.push(encodeURIComponent(name) + '=' + encodeURIComponent(String(item)));
+                }
+            }
+        }
+        if (query.length > 0) {
+            path += (path.indexOf('?') > -1 ? '&' : '?') + query.join('&');
+        }
+        return path;
+    }
+
+}
+
+export type AsadminParameters = { [name: string]: string | number | boolean | string[] | undefined };
+
+export interface AsadminOptions {
+    /** Time in millisecond to wait for the response, 0 to wait forever. */
+    timeout?: number;
+    token?: CancellationToken;
+    /** Archive to be sent as the request body. */
+    uploadFile?: string;
+}
+
+interface AsadminResponse {
+    statusCode: number;
+    headers: IncomingHttpHeaders;
+    body: string;
+}
+
+export interface AsadminTextResponse {
+    body: string;
+    headers: IncomingHttpHeaders;
+}
+
+export interface ApplicationSummary {
+    name: string;
+    /** Application type e.g web, ejb, or the sniffer list. */
+    type: string;
+}
+
+export interface DeployParameters {
+    /** Path of the archive or exploded directory. */
+    path: string;
+    name: string;
+    /** Upload the archive instead of passing the server side path. */
+    upload?: boolean;
+    force?: boolean;
+    hotDeploy?: boolean;
+    metadataChanged?: boolean;
+    sourcesChanged?: string[];
+    /** Instance, deployment group or cluster, the DAS if not set. */
+    target?: string;
+    contextRoot?: string;
+    /** Comma separated virtual servers. */
+    virtualServers?: string;
+    precompileJsp?: boolean;
+    libraries?: string[];
+    keepState?: boolean;
+    availabilityEnabled?: boolean;
+    properties?: { [name: string]: string };
+}
+
+export interface SubComponent {
+    name: string;
+    /** Component type e.g WebModule, Servlet, StatelessSessionBean. */
+    type: string;
+}
+
+export interface DeploymentDescriptor {
+    module: string;
+    /** Path of the descriptor in the module e.g WEB-INF/web.xml */
+    path: string;
+    content: string;
+}
+
+export interface InstanceSummary {
+    name: string;
+    /** Status reported by list-instances e.g running, not running. */
+    status: string;
+    running: boolean;
+}
+
+export interface DeployResult {
+    name: string;
+    report: ActionReport;
+}
+
+export interface Locations {
+    baseRoot: string | undefined;
+    domainRoot: string | undefined;
+    instanceRoot: string | undefined;
+    configDir: string | undefined;
+    /** Server response header, e.g Payara Server 6.2023.1 #badassfish */
+    server: string | undefined;
+    properties: Map<string, string>;
+}
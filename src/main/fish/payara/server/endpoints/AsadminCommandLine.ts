@@ -0,0 +1,87 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import { JavaUtils } from '../tooling/utils/JavaUtils';
+import { AsadminParameters } from './AsadminClient';
+
+/**
+ * asadmin command line typed by the user, e.g
+ * <code>create-jdbc-resource --connectionpoolid DerbyPool jdbc/sample</code>
+ *
+ * Options are given as <code>--name=value</code> or <code>--name value</code>,
+ * an option without value is sent as <code>true</code>. A well-known boolean
+ * option e.g <code>--force</code> only takes a following true or false, so
+ * that <code>deploy --force app.war</code> keeps app.war as operand. Operands
+ * are sent as the DEFAULT parameter.
+ */
+export class AsadminCommandLine {
+
+    private static ASADMIN_PREFIX: RegExp = /^asadmin\s+/;
+
+    private static OPERAND: string = 'DEFAULT';
+
+    /** asadmin options which are flags, given without a value. */
+    private static BOOLEAN_OPTIONS: Set<string> = new Set<string>([
+        'force', 'upload', 'enabled', 'verbose', 'terse', 'echo', 'interactive', 'help', 'long',
+        'precompilejsp', 'keepstate', 'createtables', 'dropandcreatetables', 'droptables',
+        'availabilityenabled', 'asyncreplication', 'generatermistubs', 'cascade', 'ping', 'debug'
+    ]);
+
+    private static BOOLEAN_VALUE: RegExp = /^(true|false)$/i;
+
+    constructor(
+        public command: string,
+        public parameters: AsadminParameters) {
+    }
+
+    public static parse(line: string): AsadminCommandLine {
+        let args: string[] = JavaUtils.parseParameters(line.trim().replace(AsadminCommandLine.ASADMIN_PREFIX, ''));
+        if (args.length === 0) {
+            throw new Error('asadmin command is empty.');
+        }
+        let command = args[0];
+        let parameters: AsadminParameters = {};
+        let operands: string[] = [];
+        for (let i = 1; i < args.length; i++) {
+            let arg = args[i];
+            if (arg.startsWith('--') && arg.length > 2) {
+                let option = arg.substring(2);
+                let separator = option.indexOf('=');
+                if (separator > -1) {
+                    parameters[option.substring(0, separator)] = option.substring(separator + 1);
+                } else if (i + 1 < args.length && !args[i + 1].startsWith('--')
+                    && (!AsadminCommandLine.BOOLEAN_OPTIONS.has(option.toLowerCase())
+                        || AsadminCommandLine.BOOLEAN_VALUE.test(args[i + 1]))) {
+                    parameters[option] = args[++i];
+                } else {
+                    parameters[option] = true;
+                }
+            } else {
+                operands.push(arg);
+            }
+        }
+        if (operands.length === 1) {
+            parameters[AsadminCommandLine.OPERAND] = operands[0];
+        } else if (operands.length > 1) {
+            parameters[AsadminCommandLine.OPERAND] = operands;
+        }
+        return new AsadminCommandLine(command, parameters);
+    }
+
+}
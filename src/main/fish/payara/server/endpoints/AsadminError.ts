@@ -0,0 +1,64 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import { ActionReport } from './ActionReport';
+
+/**
+ * Raised when an asadmin command cannot be executed, either because the
+ * admin listener is unreachable, the response code is not 200 or the
+ * action report exit code is FAILURE.
+ */
+export class AsadminError extends Error {
+
+    public static TIMEOUT: string = 'TIMEOUT';
+
+    public static CANCELLED: string = 'CANCELLED';
+
+    /**
+     * @param command    asadmin command or REST path invoked.
+     * @param message    human readable failure message.
+     * @param statusCode HTTP response code, if a response was received.
+     * @param code       system error code (e.g ECONNREFUSED) or
+     *                   TIMEOUT / CANCELLED.
+     * @param report     action report, if the server returned one.
+     */
+    constructor(
+        public command: string,
+        message: string,
+        public statusCode?: number,
+        public code?: string,
+        public report?: ActionReport) {
+        super(message);
+        this.name = 'AsadminError';
+        Object.setPrototypeOf(this, AsadminError.prototype);
+    }
+
+    public isConnectionFailure(): boolean {
+        return this.code === 'ECONNREFUSED' || this.code === 'ECONNRESET';
+    }
+
+    public isCancelled(): boolean {
+        return this.code === AsadminError.CANCELLED;
+    }
+
+    public static getMessage(error: any): string {
+        return (error instanceof Error) ? error.message : String(error);
+    }
+
+}
@@ -0,0 +1,74 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import { URL } from 'url';
+import { ServerUtils } from '../tooling/utils/ServerUtils';
+import { AsadminClient, AsadminOptions } from './AsadminClient';
+
+/**
+ * Reads the server.log of an instance incrementally through
+ * /management/domain/view-log, each read resumes from the position returned
+ * in the X-Text-Append-Next header of the previous one.
+ */
+export class ViewLogReader {
+
+    private start: number = 0;
+
+    /**
+     * @param instanceName DAS or instance name.
+     */
+    constructor(
+        private client: AsadminClient,
+        public instanceName: string = ServerUtils.DAS_NAME) {
+    }
+
+    public reset(): void {
+        this.start = 0;
+    }
+
+    /**
+     * @returns the log records appended since the last read, the text is
+     *          empty if the position did not move.
+     */
+    public async read(options?: AsadminOptions): Promise<string> {
+        let start = this.start;
+        let response = await this.client.invokeText('/management/domain/view-log', {
+            start: start,
+            instanceName: this.instanceName
+        }, options);
+        let nextLogHeader: string = <string>response.headers['x-text-append-next'];
+        if (!nextLogHeader) {
+            return response.body;
+        }
+        let next = new URL(nextLogHeader).searchParams.get('start');
+        let nextStart = next ? parseInt(next, 10) : 0;
+        if (start !== this.start || nextStart === start) {
+            // already read by a concurrent read, or nothing appended
+            return '';
+        }
+        if (nextStart < start) {
+            // the log was rotated, read again from its start
+            this.start = 0;
+            return '';
+        }
+        this.start = nextStart;
+        return response.body;
+    }
+
+}
@@ -0,0 +1,42 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { PayaraServerInstance } from "../PayaraServerInstance";
+
+export class JdbcConnectionPool extends vscode.TreeItem {
+
+    constructor(
+        public payaraServer: PayaraServerInstance,
+        public name: string) {
+        super(name);
+        this.id = `${payaraServer.getName()}/jdbc-connection-pool/${name}`;
+        this.description = 'connection pool';
+        this.iconPath = new vscode.ThemeIcon('database');
+        this.contextValue = 'payara-jdbc-pool';
+    }
+
+    /**
+     * @returns the dotted name of the pool, dots in the pool name are escaped.
+     */
+    public getDottedName(): string {
+        return 'resources.jdbc-connection-pool.' + this.name.replace(/\./g, '\\.');
+    }
+
+}
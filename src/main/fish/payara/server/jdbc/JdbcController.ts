@@ -0,0 +1,381 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { MessageOptions, QuickPickItem } from "vscode";
+import * as ui from "../../../../UI";
+import { PayaraServerInstance } from "../PayaraServerInstance";
+import { PayaraServerInstanceController } from "../PayaraServerInstanceController";
+import { AsadminClient } from "../endpoints/AsadminClient";
+import { AsadminError } from "../endpoints/AsadminError";
+import { JdbcConnectionPool } from "./JdbcConnectionPool";
+import { JdbcNode } from "./JdbcNode";
+import { JdbcResource } from "./JdbcResource";
+
+const POOL_TITLE = 'Create JDBC Connection Pool';
+const RESOURCE_TITLE = 'Create JDBC Resource';
+const DEFAULT_RESOURCE_TYPE = 'javax.sql.DataSource';
+
+/**
+ * Datasource templates offered by the connection pool wizard, properties are
+ * in the asadmin syntax (name=value pairs separated by colons).
+ */
+const DATABASES: Array<DatabaseItem> = [
+    {
+        label: 'PostgreSQL',
+        datasourceClassName: 'org.postgresql.ds.PGSimpleDataSource',
+        properties: 'serverName=localhost:portNumber=5432:databaseName=postgres:user=postgres:password='
+    },
+    {
+        label: 'MySQL',
+        datasourceClassName: 'com.mysql.cj.jdbc.MysqlDataSource',
+        properties: 'serverName=localhost:portNumber=3306:databaseName=mysql:user=root:password='
+    },
+    {
+        label: 'MariaDB',
+        datasourceClassName: 'org.mariadb.jdbc.MariaDbDataSource',
+        properties: 'URL=jdbc\\:mariadb\\://localhost\\:3306/test:user=root:password='
+    },
+    {
+        label: 'Oracle',
+        datasourceClassName: 'oracle.jdbc.pool.OracleDataSource',
+        properties: 'URL=jdbc\\:oracle\\:thin\\:@localhost\\:1521/XEPDB1:user=system:password='
+    },
+    {
+        label: 'Microsoft SQL Server',
+        datasourceClassName: 'com.microsoft.sqlserver.jdbc.SQLServerDataSource',
+        properties: 'serverName=localhost:portNumber=1433:databaseName=master:user=sa:password='
+    },
+    {
+        label: 'H2',
+        datasourceClassName: 'org.h2.jdbcx.JdbcDataSource',
+        properties: 'URL=jdbc\\:h2\\:mem\\:test:user=sa:password='
+    },
+    {
+        label: 'Apache Derby',
+        datasourceClassName: 'org.apache.derby.jdbc.ClientDataSource',
+        properties: 'serverName=localhost:portNumber=1527:databaseName=sun-appserv-samples:user=APP:password=APP:connectionAttributes=;create\\=true'
+    },
+    {
+        label: 'Other',
+        datasourceClassName: '',
+        properties: ''
+    }
+];
+
+/**
+ * Context actions of the JDBC connection pools and resources of a running
+ * Payara Server.
+ */
+export class JdbcController {
+
+    constructor(private controller: PayaraServerInstanceController) {
+    }
+
+    public async createConnectionPool(node: JdbcNode): Promise<void> {
+        let payaraServer = node.payaraServer;
+        let state: Partial<JdbcState> = {};
+        await ui.MultiStepInput.run(input => this.poolName(1, 3, input, state));
+        if (!state.name || state.datasourceClassName === undefined || state.properties === undefined) {
+            return;
+        }
+        let client: AsadminClient = new AsadminClient(payaraServer);
+        try {
+            await client.invoke('create-jdbc-connection-pool', {
+                datasourceclassname: state.datasourceClassName,
+                restype: DEFAULT_RESOURCE_TYPE,
+                property: state.properties ? state.properties : undefined,
+                DEFAULT: state.name
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to create the JDBC connection pool. ' + AsadminError.getMessage(error));
+            return;
+        }
+        vscode.window.showInformationMessage(`JDBC connection pool ${state.name} created successfully.`);
+        this.controller.refreshServerList();
+    }
+
+    public async createResource(item: JdbcNode | JdbcConnectionPool): Promise<void> {
+        let payaraServer = item.payaraServer;
+        let state: Partial<JdbcState> = {};
+        let pools: string[];
+        if (item instanceof JdbcConnectionPool) {
+            state.poolName = item.name;
+            pools = [item.name];
+        } else {
+            try {
+                pools = await new AsadminClient(payaraServer).listJdbcConnectionPools();
+            } catch (error) {
+                vscode.window.showErrorMessage('Unable to list the JDBC connection pools. ' + AsadminError.getMessage(error));
+                return;
+            }
+            if (pools.length === 0) {
+                vscode.window.showErrorMessage('Please create a JDBC connection pool first.');
+                return;
+            }
+        }
+        let totalSteps = state.poolName ? 1 : 2;
+        await ui.MultiStepInput.run(input => this.jndiName(1, totalSteps, input, state, pools));
+        if (!state.jndiName || !state.poolName) {
+            return;
+        }
+        let client: AsadminClient = new AsadminClient(payaraServer);
+        try {
+            await client.invoke('create-jdbc-resource', {
+                connectionpoolid: state.poolName,
+                DEFAULT: state.jndiName
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to create the JDBC resource. ' + AsadminError.getMessage(error));
+            return;
+        }
+        vscode.window.showInformationMessage(`JDBC resource ${state.jndiName} created successfully.`);
+        this.controller.refreshServerList();
+    }
+
+    public async pingConnectionPool(pool: JdbcConnectionPool): Promise<void> {
+        let client: AsadminClient = new AsadminClient(pool.payaraServer);
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Pinging JDBC connection pool ${pool.name}`
+            }, () => client.invoke('ping-connection-pool', { DEFAULT: pool.name }));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Unable to ping the JDBC connection pool ${pool.name}. ` + AsadminError.getMessage(error));
+            return;
+        }
+        vscode.window.showInformationMessage(`Ping of JDBC connection pool ${pool.name} succeeded.`);
+    }
+
+    public async editPoolProperties(pool: JdbcConnectionPool): Promise<void> {
+        let client: AsadminClient = new AsadminClient(pool.payaraServer);
+        let prefix = pool.getDottedName() + '.property.';
+        let properties: Map<string, string>;
+        try {
+            properties = await client.getDottedValues(prefix + '*');
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to read the JDBC connection pool properties. ' + AsadminError.getMessage(error));
+            return;
+        }
+        let addProperty: QuickPickItem = { label: 'Add property...' };
+        let items: PropertyItem[] = [];
+        properties.forEach((value, key) => {
+            let name = key.substring(key.lastIndexOf('.property.') + '.property.'.length);
+            items.push({
+                label: name,
+                description: name.toLowerCase() === 'password' ? '********' : value,
+                name: name,
+                value: value
+            });
+        });
+        let pick = await vscode.window.showQuickPick<PropertyItem>([...items, addProperty], {
+            placeHolder: `Select the property of ${pool.name} to edit`
+        });
+        if (!pick) {
+            return;
+        }
+        let name = pick.name;
+        if (!name) {
+            name = await vscode.window.showInputBox({
+                prompt: 'Enter the property name',
+                validateInput: value => value.trim().length === 0 ? 'Property name is required.' : undefined
+            });
+            if (!name) {
+                return;
+            }
+            name = name.trim();
+        }
+        let value = await vscode.window.showInputBox({
+            prompt: `Enter the value of ${name}, leave empty to remove the property`,
+            value: pick.value,
+            password: name.toLowerCase() === 'password'
+        });
+        if (value === undefined) {
+            return;
+        }
+        try {
+            await client.setDottedValue(prefix + name, value);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Unable to update the property ${name}. ` + AsadminError.getMessage(error));
+            return;
+        }
+        vscode.window.showInformationMessage(`Property ${name} of ${pool.name} updated successfully.`);
+    }
+
+    public async deleteConnectionPool(pool: JdbcConnectionPool): Promise<void> {
+        let options: MessageOptions = {
+            detail: 'Deleting the pool with its resources also removes the JDBC resources referring to it.',
+            modal: true
+        };
+        let deletePool = 'Delete';
+        let deleteCascade = 'Delete with Resources';
+        let item = await vscode.window.showWarningMessage(
+            `Are you sure that you want to delete the JDBC connection pool ${pool.name}?`,
+            options, deletePool, deleteCascade
+        );
+        if (!item) {
+            return;
+        }
+        let client: AsadminClient = new AsadminClient(pool.payaraServer);
+        try {
+            await client.invoke('delete-jdbc-connection-pool', {
+                cascade: item === deleteCascade,
+                DEFAULT: pool.name
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to delete the JDBC connection pool. ' + AsadminError.getMessage(error));
+            return;
+        }
+        this.controller.refreshServerList();
+    }
+
+    public async deleteResource(resource: JdbcResource): Promise<void> {
+        let item = await vscode.window.showWarningMessage(
+            `Are you sure that you want to delete the JDBC resource ${resource.jndiName}?`,
+            { modal: true }, 'Delete'
+        );
+        if (!item) {
+            return;
+        }
+        let client: AsadminClient = new AsadminClient(resource.payaraServer);
+        try {
+            await client.invoke('delete-jdbc-resource', { DEFAULT: resource.jndiName });
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to delete the JDBC resource. ' + AsadminError.getMessage(error));
+            return;
+        }
+        this.controller.refreshServerList();
+    }
+
+    private async poolName(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<JdbcState>) {
+        state.name = await input.showInputBox({
+            title: POOL_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            value: state.name || '',
+            prompt: 'Enter the name of the connection pool',
+            validate: value => this.validateName(value, 'Pool name'),
+            shouldResume: this.controller.shouldResume
+        });
+        return (input: ui.MultiStepInput) => this.selectDatabase(step + 1, totalSteps, input, state);
+    }
+
+    private async selectDatabase(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<JdbcState>) {
+        let pick = <DatabaseItem>await input.showQuickPick({
+            title: POOL_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            placeholder: 'Select the database, its JDBC driver must be available in the domain lib directory.',
+            items: DATABASES.map(database => ({
+                ...database,
+                description: database.datasourceClassName
+            })),
+            shouldResume: this.controller.shouldResume
+        });
+        state.datasourceClassName = pick.datasourceClassName;
+        state.propertyTemplate = pick.properties;
+        state.properties = undefined;
+        if (!state.datasourceClassName) {
+            return (input: ui.MultiStepInput) => this.datasourceClassName(step + 1, totalSteps + 1, input, state);
+        }
+        return (input: ui.MultiStepInput) => this.poolProperties(step + 1, totalSteps, input, state);
+    }
+
+    private async datasourceClassName(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<JdbcState>) {
+        state.datasourceClassName = await input.showInputBox({
+            title: POOL_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            value: state.datasourceClassName || '',
+            prompt: 'Enter the fully qualified datasource class name',
+            validate: value => this.validateName(value, 'Datasource class name'),
+            shouldResume: this.controller.shouldResume
+        });
+        return (input: ui.MultiStepInput) => this.poolProperties(step + 1, totalSteps, input, state);
+    }
+
+    private async poolProperties(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<JdbcState>) {
+        let properties = await input.showInputBox({
+            title: POOL_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            value: state.properties !== undefined ? state.properties : (state.propertyTemplate || ''),
+            prompt: 'Enter the pool properties as name=value pairs separated by colons, escape colons in values with a backslash',
+            validate: async () => undefined,
+            shouldResume: this.controller.shouldResume
+        });
+        state.properties = properties.trim();
+    }
+
+    private async jndiName(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<JdbcState>, pools: string[]) {
+        state.jndiName = await input.showInputBox({
+            title: RESOURCE_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            value: state.jndiName || (state.poolName ? `jdbc/${state.poolName}` : 'jdbc/'),
+            prompt: 'Enter the JNDI name of the JDBC resource',
+            validate: value => this.validateName(value, 'JNDI name'),
+            shouldResume: this.controller.shouldResume
+        });
+        if (totalSteps > step) {
+            return (input: ui.MultiStepInput) => this.selectPool(step + 1, totalSteps, input, state, pools);
+        }
+    }
+
+    private async selectPool(step: number, totalSteps: number, input: ui.MultiStepInput, state: Partial<JdbcState>, pools: string[]) {
+        let pick = await input.showQuickPick({
+            title: RESOURCE_TITLE,
+            step: step,
+            totalSteps: totalSteps,
+            placeholder: 'Select the connection pool of the resource',
+            items: pools.map(pool => ({ label: pool })),
+            shouldResume: this.controller.shouldResume
+        });
+        state.poolName = pick.label;
+    }
+
+    private async validateName(value: string, field: string): Promise<string | undefined> {
+        if (value.trim().length === 0) {
+            return `${field} is required.`;
+        } else if (/\s/.test(value.trim())) {
+            return `${field} must not contain whitespace.`;
+        }
+        return undefined;
+    }
+
+}
+
+interface JdbcState {
+    name: string;
+    datasourceClassName: string;
+    propertyTemplate: string;
+    properties: string;
+    jndiName: string;
+    poolName: string;
+}
+
+interface DatabaseItem extends QuickPickItem {
+    datasourceClassName: string;
+    properties: string;
+}
+
+interface PropertyItem extends QuickPickItem {
+    name?: string;
+    value?: string;
+}
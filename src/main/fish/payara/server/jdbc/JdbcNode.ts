@@ -0,0 +1,55 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { PayaraServerInstance } from "../PayaraServerInstance";
+import { AsadminClient } from "../endpoints/AsadminClient";
+import { AsadminError } from "../endpoints/AsadminError";
+import { JdbcConnectionPool } from "./JdbcConnectionPool";
+import { JdbcResource } from "./JdbcResource";
+
+/**
+ * "JDBC" node of a running server, lists the connection pools and the JDBC
+ * resources of the domain.
+ */
+export class JdbcNode extends vscode.TreeItem {
+
+    constructor(public payaraServer: PayaraServerInstance) {
+        super('JDBC', vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = `${payaraServer.getName()}/jdbc`;
+        this.iconPath = new vscode.ThemeIcon('database');
+        this.contextValue = 'payara-jdbc';
+    }
+
+    public async fetchChildren(): Promise<vscode.TreeItem[]> {
+        let client: AsadminClient = new AsadminClient(this.payaraServer);
+        try {
+            let pools = await client.listJdbcConnectionPools();
+            let resources = await client.listJdbcResources();
+            return [
+                ...pools.map(pool => new JdbcConnectionPool(this.payaraServer, pool)),
+                ...resources.map(resource => new JdbcResource(this.payaraServer, resource))
+            ];
+        } catch (error) {
+            vscode.window.showErrorMessage('Unable to list the JDBC resources. ' + AsadminError.getMessage(error));
+            return [];
+        }
+    }
+
+}
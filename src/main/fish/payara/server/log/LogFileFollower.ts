@@ -0,0 +1,90 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import { LogFileReader } from "./LogFileReader";
+
+/**
+ * Follows a log file in process, polling it for the text appended. The file
+ * may not exist when the follower starts, and is followed across rotations
+ * and truncations. Stopping and starting again resumes from the last offset
+ * read.
+ */
+export class LogFileFollower {
+
+    private static POLL_INTERVAL: number = 1000;
+
+    private reader: LogFileReader;
+
+    private timer: NodeJS.Timeout | undefined;
+
+    private started: boolean = false;
+
+    /**
+     * @param filePath log file to follow.
+     * @param interval polling interval in milliseconds.
+     */
+    constructor(filePath: string, private interval: number = LogFileFollower.POLL_INTERVAL) {
+        this.reader = new LogFileReader(filePath);
+    }
+
+    /**
+     * @param listener called with the text appended to the log.
+     * @param replay   number of the last records passed to the listener
+     *                 when the follower starts for the first time.
+     */
+    public async start(listener: (text: string) => void, replay: number = 0): Promise<void> {
+        if (this.started) {
+            return;
+        }
+        this.started = true;
+        if (this.reader.getPosition() === undefined) {
+            let text = await this.reader.readLast(replay);
+            if (replay > 0 && text.length > 0) {
+                listener(text);
+            }
+        }
+        let poll = async () => {
+            try {
+                let text = await this.reader.read();
+                if (text.length > 0 && this.started) {
+                    listener(text);
+                }
+            } catch (error) {
+                console.error(error);
+            }
+            if (this.started) {
+                this.timer = setTimeout(poll, this.interval);
+            }
+        };
+        poll();
+    }
+
+    public stop(): void {
+        this.started = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    public isStarted(): boolean {
+        return this.started;
+    }
+
+}
@@ -0,0 +1,151 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as fs from "fs";
+import { StringDecoder } from "string_decoder";
+
+/**
+ * Reads a log file incrementally, each read returns the text appended since
+ * the previous one. The file is read again from the start when it is
+ * truncated or replaced, i.e when it was rotated.
+ */
+export class LogFileReader {
+
+    /**
+     * Maximum size read from an existing log on the first read.
+     */
+    private static INITIAL_SIZE: number = 2 * 1024 * 1024;
+
+    private static RECORD_START: RegExp = /^\[(?:#\||\d{4}-\d{2}-\d{2}T)/gm;
+
+    /**
+     * Identity of the file read, the inode and creation time.
+     */
+    private file: string | undefined;
+
+    /**
+     * Keeps the bytes of a character split across consecutive reads.
+     */
+    private decoder: StringDecoder = new StringDecoder('utf8');
+
+    /**
+     * @param filePath log file, which may not exist yet.
+     * @param position offset to resume reading from.
+     */
+    constructor(public filePath: string, private position?: number) {
+    }
+
+    public reset(): void {
+        this.position = undefined;
+    }
+
+    /**
+     * @returns the offset of the next read.
+     */
+    public getPosition(): number | undefined {
+        return this.position;
+    }
+
+    public async read(): Promise<string> {
+        let stats = this.stat();
+        if (!stats) {
+            // the log is read from its start once created
+            this.position = 0;
+            return '';
+        }
+        if (this.position === undefined) {
+            let start = Math.max(0, stats.size - LogFileReader.INITIAL_SIZE);
+            let text = this.readRange(start, stats.size);
+            this.position = stats.size;
+            if (start > 0) {
+                // skips the partial record at the start of the text
+                let recordStart = text.indexOf('\n[');
+                text = recordStart < 0 ? '' : text.substring(recordStart + 1);
+            }
+            return text;
+        }
+        return this.readRange(this.position, stats.size);
+    }
+
+    /**
+     * Positions the reader at the start of the last records of the log.
+     *
+     * @param count number of records to read again.
+     * @returns the last records.
+     */
+    public async readLast(count: number): Promise<string> {
+        let stats = this.stat();
+        if (!stats) {
+            this.position = 0;
+            return '';
+        }
+        let start = Math.max(0, stats.size - LogFileReader.INITIAL_SIZE);
+        let text = this.readRange(start, stats.size);
+        let starts: number[] = [];
+        let match: RegExpExecArray | null;
+        LogFileReader.RECORD_START.lastIndex = 0;
+        while ((match = LogFileReader.RECORD_START.exec(text)) !== null) {
+            starts.push(match.index);
+        }
+        let offset = starts.length > count ? starts[starts.length - count] : (starts.length > 0 ? starts[0] : 0);
+        return text.substring(offset);
+    }
+
+    /**
+     * @returns the file stats, the position is reset when the file was
+     *          rotated or truncated.
+     */
+    private stat(): fs.Stats | undefined {
+        if (!fs.existsSync(this.filePath)) {
+            this.file = undefined;
+            return undefined;
+        }
+        let stats = fs.statSync(this.filePath);
+        let file = `${stats.ino}:${stats.birthtimeMs}`;
+        if (this.position !== undefined && ((this.file !== undefined && this.file !== file) || stats.size < this.position)) {
+            this.position = 0;
+            this.decoder = new StringDecoder('utf8');
+        }
+        this.file = file;
+        return stats;
+    }
+
+    /**
+     * Reads the text between the offsets and moves the position to the end.
+     */
+    private readRange(start: number, end: number): string {
+        if (start !== this.position) {
+            // not following the previous read
+            this.decoder = new StringDecoder('utf8');
+        }
+        this.position = end;
+        if (end <= start) {
+            return '';
+        }
+        let buffer = Buffer.alloc(end - start);
+        let fd = fs.openSync(this.filePath, 'r');
+        try {
+            fs.readSync(fd, buffer, 0, buffer.length, start);
+        } finally {
+            fs.closeSync(fd);
+        }
+        return this.decoder.write(buffer);
+    }
+
+}
@@ -0,0 +1,239 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+const ODL_RECORD: RegExp = /^\[\d{4}-\d{2}-\d{2}T/;
+const ULF_START: string = '[#|';
+const ULF_END: string = '|#]';
+const ODL_MESSAGE_START: string = '[[';
+const ODL_MESSAGE_END: string = ']]';
+const CONTINUATION: RegExp = /^(\s+|Caused by:|\.\.\. \d+ more)/;
+const HEADER_FIELD: RegExp = /\[([^\]]*)\]/g;
+const LEVELS: string[] = ['SEVERE', 'WARNING', 'INFO', 'CONFIG', 'FINE', 'FINER', 'FINEST'];
+const LEVEL_SYNONYMS: { [level: string]: string } = {
+    EMERGENCY: 'SEVERE', ALERT: 'SEVERE', ERROR: 'SEVERE',
+    WARN: 'WARNING', DEBUG: 'FINE', TRACE: 'FINEST'
+};
+
+/**
+ * Parses the records of the server.log in the ODL format
+ * (<code>[timestamp] [product] [level] [id] [logger] [tid: ...] [[ message ]]</code>)
+ * or in the ULF format (<code>[#|timestamp|level|product|logger|key=value;|message|#]</code>).
+ * Lines outside of a record, e.g the standard output of a process, are kept
+ * as records without level.
+ *
+ * Text is pushed as it is read, a record spanning several reads is parsed
+ * once complete.
+ */
+export class LogParser {
+
+    private buffer: string = '';
+
+    private sequence: number = 0;
+
+    public reset(): void {
+        this.buffer = '';
+    }
+
+    /**
+     * @param text  text appended to the log.
+     * @param flush parses the incomplete record at the end of the text.
+     * @returns the records completed by the text.
+     */
+    public push(text: string, flush: boolean = false): LogRecord[] {
+        this.buffer += text.replace(/\r\n/g, '\n');
+        let records: LogRecord[] = [];
+        while (this.buffer.length > 0) {
+            let buffer = this.buffer.replace(/^\n+/, '');
+            if (buffer.length === 0) {
+                this.buffer = '';
+                break;
+            }
+            let end: number;
+            let record: LogRecord;
+            if (buffer.startsWith(ULF_START)) {
+                end = buffer.indexOf(ULF_END);
+                if (end < 0 && !flush) {
+                    break;
+                }
+                end = end < 0 ? buffer.length : end + ULF_END.length;
+                record = this.parseUlf(buffer.substring(ULF_START.length, end - ULF_END.length));
+            } else if (ODL_RECORD.test(buffer)) {
+                let messageStart = buffer.indexOf(ODL_MESSAGE_START);
+                end = messageStart < 0 ? -1 : buffer.indexOf(ODL_MESSAGE_END, messageStart + ODL_MESSAGE_START.length);
+                if (end < 0 && !flush) {
+                    break;
+                }
+                end = end < 0 ? buffer.length : end + ODL_MESSAGE_END.length;
+                record = this.parseOdl(buffer.substring(0, end));
+            } else {
+                end = buffer.indexOf('\n');
+                if (end < 0 && !flush) {
+                    break;
+                }
+                end = end < 0 ? buffer.length : end;
+                let line = buffer.substring(0, end);
+                let previous = records[records.length - 1];
+                if (previous && !previous.level && CONTINUATION.test(line)) {
+                    previous.details = previous.details ? previous.details + '\n' + line : line;
+                    this.buffer = buffer.substring(end);
+                    continue;
+                }
+                record = this.createRecord({ message: line });
+            }
+            records.push(record);
+            this.buffer = buffer.substring(end);
+        }
+        return records;
+    }
+
+    private parseOdl(text: string): LogRecord {
+        let messageStart = text.indexOf(ODL_MESSAGE_START);
+        let header = messageStart < 0 ? text : text.substring(0, messageStart);
+        let message = messageStart < 0 ? '' : text.substring(messageStart + ODL_MESSAGE_START.length).replace(/\]\]$/, '');
+        let fields: string[] = [];
+        let match: RegExpExecArray | null;
+        HEADER_FIELD.lastIndex = 0;
+        while ((match = HEADER_FIELD.exec(header)) !== null) {
+            fields.push(match[1].trim());
+        }
+        let attributes: { [key: string]: string } = {};
+        for (let field of fields.slice(5)) {
+            let separator = field.indexOf(':');
+            if (separator > 0) {
+                attributes[field.substring(0, separator).trim()] = field.substring(separator + 1).trim();
+            }
+        }
+        let thread = attributes['tid'] || '';
+        return this.createRecord({
+            timestamp: fields[0],
+            level: fields[2],
+            messageId: fields[3],
+            logger: fields[4],
+            thread: LogParser.getThreadName(thread),
+            time: attributes['timeMillis'] ? parseInt(attributes['timeMillis'], 10) : undefined,
+            application: attributes['appName'] || attributes['ApplicationName'],
+            message: message
+        });
+    }
+
+    private parseUlf(text: string): LogRecord {
+        let fields = text.split('|');
+        let attributes: { [key: string]: string } = {};
+        for (let pair of (fields[4] || '').split(';')) {
+            let separator = pair.indexOf('=');
+            if (separator > 0) {
+                attributes[pair.substring(0, separator).trim()] = pair.substring(separator + 1).trim();
+            }
+        }
+        return this.createRecord({
+            timestamp: fields[0],
+            level: fields[1],
+            logger: fields[3],
+            thread: attributes['_ThreadName'] || attributes['_ThreadID'],
+            time: attributes['_TimeMillis'] ? parseInt(attributes['_TimeMillis'], 10) : undefined,
+            application: attributes['_ApplicationName'] || attributes['_AppName'],
+            message: fields.slice(5).join('|')
+        });
+    }
+
+    /**
+     * Splits the message in its first line and the following lines, e.g the
+     * stack trace.
+     */
+    private createRecord(fields: RecordFields): LogRecord {
+        let message = fields.message.replace(/^\s+|\s+$/g, '');
+        let newLine = message.indexOf('\n');
+        let time = fields.time;
+        if (time === undefined && fields.timestamp) {
+            // e.g 2024-01-31T10:15:30.123+0100
+            let parsed = Date.parse(fields.timestamp.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+            time = isNaN(parsed) ? undefined : parsed;
+        }
+        return {
+            id: this.sequence++,
+            timestamp: fields.timestamp || '',
+            time: time,
+            level: fields.level || '',
+            messageId: fields.messageId || '',
+            logger: fields.logger || '',
+            thread: fields.thread || '',
+            application: fields.application || '',
+            message: newLine < 0 ? message : message.substring(0, newLine),
+            details: newLine < 0 ? '' : message.substring(newLine + 1)
+        };
+    }
+
+    /**
+     * @param record  parsed record.
+     * @param minimum minimum java.util.logging level, e.g WARNING.
+     * @returns true if the record level is at least the minimum level, false
+     *          for a line outside of a record.
+     */
+    public static isLoggable(record: LogRecord, minimum: string): boolean {
+        let level = record.level.toUpperCase();
+        let severity = LEVELS.indexOf(LEVEL_SYNONYMS[level] || level);
+        return severity >= 0 && severity <= LEVELS.indexOf(minimum);
+    }
+
+    /**
+     * @returns the record formatted on a line followed by its details.
+     */
+    public static format(record: LogRecord): string {
+        let line = `[${record.timestamp}] [${record.level}] [${record.logger}] ${record.message}`;
+        return record.details ? line + '\n' + record.details : line;
+    }
+
+    /**
+     * @param tid e.g <code>_ThreadID=42 _ThreadName=http-thread-pool::http-listener-1(1)</code>
+     */
+    private static getThreadName(tid: string): string {
+        let name = /_ThreadName=(.*)$/.exec(tid);
+        return name ? name[1].trim() : tid;
+    }
+
+}
+
+export interface LogRecord {
+    /** Sequence number of the record in the parsed log. */
+    id: number;
+    timestamp: string;
+    /** Epoch milliseconds, if the timestamp could be parsed. */
+    time?: number;
+    /** Empty for a line outside of a record. */
+    level: string;
+    messageId: string;
+    logger: string;
+    thread: string;
+    application: string;
+    /** First line of the message. */
+    message: string;
+    /** Following lines of the message, e.g the stack trace. */
+    details: string;
+}
+
+interface RecordFields {
+    timestamp?: string;
+    time?: number;
+    level?: string;
+    messageId?: string;
+    logger?: string;
+    thread?: string;
+    application?: string;
+    message: string;
+}
@@ -0,0 +1,330 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { PayaraServerInstance } from "../PayaraServerInstance";
+import { PayaraLocalServerInstance } from "../PayaraLocalServerInstance";
+import { AsadminClient } from "../endpoints/AsadminClient";
+import { AsadminError } from "../endpoints/AsadminError";
+import { ViewLogReader } from "../endpoints/ViewLogReader";
+import { LogFileReader } from "./LogFileReader";
+import { LogParser } from "./LogParser";
+import { StackTraceResolver } from "../../project/StackTraceResolver";
+
+const POLL_INTERVAL: number = 2000;
+
+/**
+ * Webview listing the parsed records of the server.log, read from the file of
+ * a local domain or through view-log for a remote server. Records are
+ * filtered by level, logger, application, time range and text in the
+ * webview, new records are appended while following.
+ */
+export class LogViewer {
+
+    private static viewers: Map<string, LogViewer> = new Map<string, LogViewer>();
+
+    private parser: LogParser = new LogParser();
+
+    private reader: LogReader;
+
+    private timer: NodeJS.Timeout | undefined;
+
+    private reading: boolean = false;
+
+    private follow: boolean = true;
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private payaraServer: PayaraServerInstance) {
+        this.reader = payaraServer instanceof PayaraLocalServerInstance
+            ? new LogFileReader(payaraServer.getServerLog())
+            : new ViewLogReader(new AsadminClient(payaraServer));
+        panel.onDidDispose(() => {
+            this.stop();
+            LogViewer.viewers.delete(payaraServer.getName());
+        });
+        panel.webview.onDidReceiveMessage(message => {
+            if (message.command === 'follow') {
+                this.follow = message.follow;
+                this.follow ? this.start() : this.stop();
+            } else if (message.command === 'reload') {
+                this.reload();
+            } else if (message.command === 'openFrame') {
+                StackTraceResolver.getInstance().open(message.className, message.fileName, message.line);
+            }
+        });
+        panel.webview.html = this.render();
+        this.start();
+    }
+
+    public static show(payaraServer: PayaraServerInstance): void {
+        let viewer = LogViewer.viewers.get(payaraServer.getName());
+        if (viewer) {
+            viewer.panel.reveal();
+            return;
+        }
+        let panel = vscode.window.createWebviewPanel(
+            'payaraLogViewer',
+            `Log - ${payaraServer.getName()}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        viewer = new LogViewer(panel, payaraServer);
+        LogViewer.viewers.set(payaraServer.getName(), viewer);
+    }
+
+    private start(): void {
+        this.stop();
+        this.read();
+        this.timer = setInterval(() => this.read(), POLL_INTERVAL);
+    }
+
+    private stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private reload(): void {
+        this.reader.reset();
+        this.parser.reset();
+        this.panel.webview.postMessage({ command: 'clear' });
+        this.follow ? this.start() : this.read();
+    }
+
+    private async read(): Promise<void> {
+        // the log of a remote server is only readable while it is running
+        if (this.reading || (!(this.reader instanceof LogFileReader) && !this.payaraServer.isStarted())) {
+            return;
+        }
+        this.reading = true;
+        try {
+            let records = this.parser.push(await this.reader.read());
+            if (records.length > 0) {
+                this.panel.webview.postMessage({
+                    command: 'records',
+                    records: records,
+                    applications: this.payaraServer.getApplications().map(application => application.name)
+                });
+            }
+        } catch (error) {
+            this.panel.webview.postMessage({ command: 'error', message: 'Unable to read the log: ' + AsadminError.getMessage(error) });
+        } finally {
+            this.reading = false;
+        }
+    }
+
+    private render(): string {
+        let nonce = Math.random().toString(36).substring(2);
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding-top: 0; }
+    select, input { color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 3px; }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    .toolbar { position: sticky; top: 0; background: var(--vscode-editor-background); padding: 8px 0; display: flex; flex-wrap: wrap; gap: 6px; align-items: center; z-index: 1; }
+    table { border-collapse: collapse; width: 100%; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); }
+    td { padding: 1px 8px 1px 0; vertical-align: top; white-space: nowrap; }
+    td.message { white-space: pre-wrap; width: 100%; }
+    .internal { opacity: 0.5; }
+    a.frame { color: var(--vscode-textLink-foreground); cursor: pointer; }
+    details pre { margin: 2px 0; white-space: pre-wrap; }
+    .SEVERE { color: var(--vscode-errorForeground); }
+    .WARNING { color: var(--vscode-editorWarning-foreground); }
+    .muted { color: var(--vscode-descriptionForeground); }
+    #error { color: var(--vscode-errorForeground); }
+</style>
+</head>
+<body>
+<div class="toolbar">
+    <select id="level">
+        <option value="">All levels</option>
+        <option value="SEVERE">SEVERE</option>
+        <option value="WARNING">WARNING and above</option>
+        <option value="INFO">INFO and above</option>
+        <option value="CONFIG">CONFIG and above</option>
+        <option value="FINE">FINE and above</option>
+        <option value="FINER">FINER and above</option>
+        <option value="FINEST">FINEST and above</option>
+    </select>
+    <input id="logger" placeholder="Logger">
+    <select id="application"><option value="">All applications</option></select>
+    <input id="from" type="datetime-local" step="1" title="From">
+    <input id="to" type="datetime-local" step="1" title="To">
+    <input id="search" placeholder="Search">
+    <label><input id="follow" type="checkbox" checked> Follow</label>
+    <button id="reload">Reload</button>
+    <span id="count" class="muted"></span>
+    <span id="error"></span>
+</div>
+<table><tbody id="records"></tbody></table>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const MAX_RECORDS = 20000;
+    const MAX_RENDERED = 2000;
+    const LEVELS = ['SEVERE', 'WARNING', 'INFO', 'CONFIG', 'FINE', 'FINER', 'FINEST'];
+    const SYNONYMS = { ERROR: 'SEVERE', WARN: 'WARNING', DEBUG: 'FINE', TRACE: 'FINEST' };
+    const INTERNAL_PACKAGES = ${JSON.stringify(StackTraceResolver.INTERNAL_PACKAGES)};
+    const FRAME = /^(\\s*at\\s+(?:[\\w.$@-]+\\/+)?)((?:[\\w$]+\\.)+[\\w$&;]+)\\(([\\w$-]+\\.(?:java|kt|groovy|scala)):(\\d+)\\)/;
+    let records = [];
+    let applications = new Set();
+
+    const element = id => document.getElementById(id);
+    const escape = value => String(value).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+    const rank = level => {
+        let index = LEVELS.indexOf(SYNONYMS[level] || level);
+        return index < 0 ? LEVELS.length : index;
+    };
+
+    function matches(record, filter) {
+        if (filter.level && (!record.level || rank(record.level) > rank(filter.level))) {
+            return false;
+        }
+        if (filter.logger && record.logger.toLowerCase().indexOf(filter.logger) < 0) {
+            return false;
+        }
+        if (filter.application && record.application !== filter.application
+            && (record.message + record.details).indexOf(filter.application) < 0) {
+            return false;
+        }
+        if ((filter.from || filter.to) && record.time === undefined) {
+            return false;
+        }
+        if ((filter.from && record.time < filter.from) || (filter.to && record.time > filter.to)) {
+            return false;
+        }
+        if (filter.search && (record.message + '\\n' + record.details + '\\n' + record.logger).toLowerCase().indexOf(filter.search) < 0) {
+            return false;
+        }
+        return true;
+    }
+
+    // links the frames of the stack trace to the sources, dims the JDK and Payara frames
+    function renderDetails(details) {
+        return details.split('\\n').map(line => {
+            let frame = FRAME.exec(escape(line));
+            if (!frame) {
+                return escape(line);
+            }
+            let className = frame[2].substring(0, frame[2].lastIndexOf('.'));
+            if (INTERNAL_PACKAGES.some(prefix => className.startsWith(prefix))) {
+                return '<span class="internal">' + escape(line) + '</span>';
+            }
+            return frame[1] + frame[2] + '(<a class="frame" data-class="' + className + '" data-file="' + frame[3]
+                + '" data-line="' + frame[4] + '">' + frame[3] + ':' + frame[4] + '</a>)' + escape(line).substring(frame[0].length);
+        }).join('\\n');
+    }
+
+    function renderRecord(record) {
+        let message = record.details
+            ? '<details><summary>' + escape(record.message) + '</summary><pre>' + renderDetails(record.details) + '</pre></details>'
+            : escape(record.message);
+        return '<tr class="' + escape(SYNONYMS[record.level] || record.level) + '">'
+            + '<td class="muted">' + escape(record.time !== undefined ? new Date(record.time).toLocaleString() : record.timestamp) + '</td>'
+            + '<td>' + escape(record.level) + '</td>'
+            + '<td class="muted" title="' + escape(record.logger + (record.thread ? ' [' + record.thread + ']' : '')) + '">'
+            + escape(record.logger.substring(record.logger.lastIndexOf('.') + 1)) + '</td>'
+            + '<td class="message">' + message + '</td></tr>';
+    }
+
+    function render() {
+        let filter = {
+            level: element('level').value,
+            logger: element('logger').value.toLowerCase(),
+            application: element('application').value,
+            from: element('from').value ? new Date(element('from').value).getTime() : undefined,
+            to: element('to').value ? new Date(element('to').value).getTime() : undefined,
+            search: element('search').value.toLowerCase()
+        };
+        let matching = records.filter(record => matches(record, filter));
+        element('count').textContent = matching.length + ' of ' + records.length + ' records'
+            + (matching.length > MAX_RENDERED ? ', last ' + MAX_RENDERED + ' shown' : '');
+        element('records').innerHTML = matching.slice(-MAX_RENDERED).map(renderRecord).join('');
+        if (element('follow').checked) {
+            window.scrollTo(0, document.body.scrollHeight);
+        }
+    }
+
+    function renderApplications() {
+        let select = element('application');
+        let selected = select.value;
+        select.innerHTML = '<option value="">All applications</option>' + Array.from(applications).sort()
+            .map(name => '<option' + (name === selected ? ' selected' : '') + '>' + escape(name) + '</option>').join('');
+    }
+
+    ['level', 'application', 'from', 'to'].forEach(id => element(id).addEventListener('change', render));
+    ['logger', 'search'].forEach(id => element(id).addEventListener('input', render));
+    element('follow').addEventListener('change', () => {
+        vscode.postMessage({ command: 'follow', follow: element('follow').checked });
+        render();
+    });
+    element('reload').addEventListener('click', () => vscode.postMessage({ command: 'reload' }));
+    element('records').addEventListener('click', event => {
+        let link = event.target.closest('a.frame');
+        if (link) {
+            vscode.postMessage({
+                command: 'openFrame',
+                className: link.dataset.class,
+                fileName: link.dataset.file,
+                line: Number(link.dataset.line)
+            });
+        }
+    });
+
+    window.addEventListener('message', event => {
+        let message = event.data;
+        if (message.command === 'clear') {
+            records = [];
+            render();
+        } else if (message.command === 'error') {
+            element('error').textContent = message.message;
+        } else if (message.command === 'records') {
+            element('error').textContent = '';
+            records = records.concat(message.records).slice(-MAX_RECORDS);
+            let size = applications.size;
+            message.applications.concat(message.records.map(record => record.application))
+                .filter(name => name)
+                .forEach(name => applications.add(name));
+            if (applications.size !== size) {
+                renderApplications();
+            }
+            render();
+        }
+    });
+</script>
+</body>
+</html>`;
+    }
+
+}
+
+/**
+ * Incremental reader of a log, the local file or the view-log endpoint.
+ */
+export interface LogReader {
+
+    reset(): void;
+
+    read(): Promise<string>;
+
+}
@@ -0,0 +1,214 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as vscode from "vscode";
+import { AsadminError } from "../endpoints/AsadminError";
+import { ViewLogReader } from "../endpoints/ViewLogReader";
+import { LogParser } from "./LogParser";
+import { OUTPUT_SCHEME } from "../../project/ProjectOutputWindowProvider";
+
+/**
+ * Streams the server.log of a remote server into its output channel. The
+ * log is polled faster while the output channel is visible, the polling
+ * backs off while no record is appended or the server is unreachable, and
+ * pauses when the server is disconnected or the output channel has been
+ * hidden for a while.
+ *
+ * view-log returns the raw server.log whatever the requested level, records
+ * below the payara.remoteLog.level setting are hence filtered out once
+ * parsed.
+ */
+export class RemoteLogStreamer implements vscode.Disposable {
+
+    /** Polling interval while the output channel is visible. */
+    private static VISIBLE_INTERVAL: number = 1000;
+
+    /** Polling interval while the output channel is not visible. */
+    private static HIDDEN_INTERVAL: number = 5000;
+
+    private static MAX_IDLE_INTERVAL: number = 30000;
+
+    private static MAX_ERROR_INTERVAL: number = 60000;
+
+    /** Time after which a hidden output channel pauses the streaming. */
+    private static HIDDEN_TIMEOUT: number = 5 * 60 * 1000;
+
+    private timer: NodeJS.Timeout | undefined;
+
+    private started: boolean = false;
+
+    private paused: boolean = false;
+
+    private interval: number = RemoteLogStreamer.VISIBLE_INTERVAL;
+
+    private lastVisible: number = Date.now();
+
+    private visibilityListener: vscode.Disposable | undefined;
+
+    /** Minimum level of the records streamed, all records if undefined. */
+    private level: string | undefined;
+
+    private parser: LogParser = new LogParser();
+
+    /**
+     * @param reader        view-log reader of the server.
+     * @param outputChannel output channel of the server.
+     * @param isConnected   whether the server is connected and running.
+     */
+    constructor(
+        private reader: ViewLogReader,
+        private outputChannel: vscode.OutputChannel,
+        private isConnected: () => boolean) {
+    }
+
+    public start(): void {
+        this.lastVisible = Date.now();
+        this.paused = false;
+        if (this.started) {
+            this.schedule(0);
+            return;
+        }
+        this.started = true;
+        this.level = this.getLevel();
+        this.interval = RemoteLogStreamer.VISIBLE_INTERVAL;
+        this.visibilityListener = vscode.window.onDidChangeVisibleTextEditors(() => {
+            if (this.paused && this.isVisible()) {
+                this.outputChannel.appendLine('Log streaming resumed.');
+                this.start();
+            }
+        });
+        this.schedule(0);
+    }
+
+    public stop(): void {
+        this.started = false;
+        this.paused = false;
+        this.clearTimer();
+        if (this.visibilityListener) {
+            this.visibilityListener.dispose();
+            this.visibilityListener = undefined;
+        }
+    }
+
+    public isStarted(): boolean {
+        return this.started;
+    }
+
+    public dispose(): void {
+        this.stop();
+    }
+
+    private schedule(delay: number): void {
+        this.clearTimer();
+        this.timer = setTimeout(() => this.poll(), delay);
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private async poll(): Promise<void> {
+        this.timer = undefined;
+        if (!this.started || this.paused) {
+            return;
+        }
+        let visible = this.isVisible();
+        if (visible) {
+            this.lastVisible = Date.now();
+        }
+        if (!this.isConnected()) {
+            // resumed by connectOutput once connected again
+            this.paused = true;
+            return;
+        }
+        if (Date.now() - this.lastVisible > RemoteLogStreamer.HIDDEN_TIMEOUT) {
+            this.outputChannel.appendLine('Log streaming paused while the output is hidden.');
+            this.paused = true;
+            return;
+        }
+        let base = visible ? RemoteLogStreamer.VISIBLE_INTERVAL : RemoteLogStreamer.HIDDEN_INTERVAL;
+        try {
+            if (await this.read()) {
+                this.interval = base;
+            } else {
+                this.interval = Math.min(Math.max(base, this.interval * 2), RemoteLogStreamer.MAX_IDLE_INTERVAL);
+            }
+        } catch (error) {
+            console.log(`Remote Payara Instance /management/domain/view-log : ${AsadminError.getMessage(error)}`);
+            this.interval = Math.min(Math.max(base, this.interval * 2), RemoteLogStreamer.MAX_ERROR_INTERVAL);
+        }
+        if (this.started && !this.paused) {
+            this.schedule(this.interval);
+        }
+    }
+
+    /**
+     * Appends the records read since the last read to the output channel,
+     * e.g when the log is opened.
+     *
+     * @returns false if nothing was appended to the log.
+     */
+    public async read(): Promise<boolean> {
+        if (!this.started) {
+            this.level = this.getLevel();
+        }
+        let read = await this.reader.read();
+        let text = this.filter(read);
+        if (text.length > 0) {
+            this.outputChannel.append(text.endsWith('\n') ? text : text + '\n');
+        }
+        return read.length > 0;
+    }
+
+    /**
+     * @returns the text of the records at least of the minimum level, or the
+     *          text unchanged if all records are streamed.
+     */
+    private filter(text: string): string {
+        if (!this.level || text.length === 0) {
+            return text;
+        }
+        let level: string = this.level;
+        return this.parser.push(text)
+            .filter(record => LogParser.isLoggable(record, level))
+            .map(record => LogParser.format(record) + '\n')
+            .join('');
+    }
+
+    /**
+     * @returns true if the output channel is shown in the panel.
+     */
+    private isVisible(): boolean {
+        return vscode.window.visibleTextEditors.some(editor =>
+            editor.document.uri.scheme === OUTPUT_SCHEME && editor.document.uri.path.endsWith(this.outputChannel.name));
+    }
+
+    /**
+     * @returns the minimum level of the records streamed, all records if
+     *          undefined.
+     */
+    private getLevel(): string | undefined {
+        let level = vscode.workspace.getConfiguration('payara').get<string>('remoteLog.level', 'ALL');
+        return level === 'ALL' ? undefined : level;
+    }
+
+}
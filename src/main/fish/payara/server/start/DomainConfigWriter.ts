@@ -0,0 +1,103 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as fse from "fs-extra";
+import * as xml2js from "xml2js";
+import { JvmConfigReader } from "./JvmConfigReader";
+
+/**
+ * Base class of the editors of a stopped domain. The domain.xml is changed
+ * textually so that the formatting and comments are preserved, the result is
+ * validated before the file is replaced.
+ */
+export abstract class DomainConfigWriter {
+
+    public constructor(public domainXmlPath: string, protected serverName: string) {
+    }
+
+    protected async update(modifier: (xml: string, config: ConfigBlock) => string): Promise<void> {
+        let xml: string = fse.readFileSync(this.domainXmlPath, 'utf8');
+        let updated = modifier(xml, this.readConfig(xml));
+        try {
+            await xml2js.parseStringPromise(updated);
+        } catch (error) {
+            throw new Error(`Unable to update ${this.domainXmlPath} : ${(error instanceof Error) ? error.message : error}`);
+        }
+        let tmpFile = this.domainXmlPath + '.tmp';
+        fse.writeFileSync(tmpFile, updated, 'utf8');
+        fse.renameSync(tmpFile, this.domainXmlPath);
+    }
+
+    /**
+     * Locates the config element of the server e.g <config name="server-config">
+     */
+    private readConfig(xml: string): ConfigBlock {
+        let configName = new JvmConfigReader(this.domainXmlPath, this.serverName).getServerConfigName();
+        if (!configName) {
+            throw new Error(`Config of ${this.serverName} not found in ${this.domainXmlPath}`);
+        }
+        let configMatch = new RegExp(`<config\\s[^>]*name="${DomainConfigWriter.escapeRegExp(configName)}"[^>]*>`).exec(xml);
+        if (!configMatch) {
+            throw new Error(`Config ${configName} not found in ${this.domainXmlPath}`);
+        }
+        let end = xml.indexOf('</config>', configMatch.index);
+        if (end < 0) {
+            throw new Error(`Config ${configName} is not closed in ${this.domainXmlPath}`);
+        }
+        return {
+            name: configName,
+            start: configMatch.index,
+            end: end
+        };
+    }
+
+    /**
+     * @returns the whitespace preceding the offset on its line, empty if the
+     * line has other content before it.
+     */
+    protected static getIndent(xml: string, offset: number): string {
+        let indent = xml.substring(xml.lastIndexOf('\n', offset - 1) + 1, offset);
+        return /^\s*$/.test(indent) ? indent : '';
+    }
+
+    protected static escape(value: string): string {
+        return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+
+    protected static unescape(value: string): string {
+        return value.replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&amp;/g, '&');
+    }
+
+    protected static escapeRegExp(value: string): string {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+
+}
+
+export interface ConfigBlock {
+    name: string;
+    /** Offset of the <config> start tag. */
+    start: number;
+    /** Offset of the </config> closing tag. */
+    end: number;
+}
@@ -100,6 +100,10 @@ export class JvmConfigReader {
         return this.propMap;
     }
 
+    public getServerConfigName(): string {
+        return this.serverConfigName;
+    }
+
     public isMonitoringEnabled(): boolean {
         return this.monitoringEnabled;
     }
@@ -0,0 +1,116 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import { ConfigBlock, DomainConfigWriter } from "./DomainConfigWriter";
+
+/**
+ * Edits the <jvm-options> of a stopped domain in place.
+ */
+export class JvmConfigWriter extends DomainConfigWriter {
+
+    public async addJvmOption(value: string): Promise<void> {
+        await this.update((xml, config) => {
+            let block = this.readJavaConfig(xml, config);
+            if (block.options.some(option => option.value === value)) {
+                throw new Error(`JVM option ${value} already exists.`);
+            }
+            let element = `<jvm-options>${DomainConfigWriter.escape(value)}</jvm-options>`;
+            if (block.options.length > 0) {
+                let last = block.options[block.options.length - 1];
+                return xml.substring(0, last.end) + '\n' + last.indent + element + xml.substring(last.end);
+            }
+            return xml.substring(0, block.end) + '  ' + element + '\n' + block.indent + xml.substring(block.end);
+        });
+    }
+
+    public async removeJvmOption(value: string): Promise<void> {
+        await this.update((xml, config) => {
+            let option = this.findOption(this.readJavaConfig(xml, config), value);
+            return xml.substring(0, option.lineStart) + xml.substring(option.end);
+        });
+    }
+
+    public async replaceJvmOption(oldValue: string, newValue: string): Promise<void> {
+        await this.update((xml, config) => {
+            let block = this.readJavaConfig(xml, config);
+            let option = this.findOption(block, oldValue);
+            if (oldValue !== newValue && block.options.some(other => other.value === newValue)) {
+                throw new Error(`JVM option ${newValue} already exists.`);
+            }
+            let element = `<jvm-options>${DomainConfigWriter.escape(newValue)}</jvm-options>`;
+            return xml.substring(0, option.start) + element + xml.substring(option.end);
+        });
+    }
+
+    private findOption(block: JavaConfigBlock, value: string): JvmOptionElement {
+        let option = block.options.find(element => element.value === value);
+        if (!option) {
+            throw new Error(`JVM option ${value} not found.`);
+        }
+        return option;
+    }
+
+    /**
+     * Locates the <java-config> element of the server config, e.g
+     * <config name="server-config"> ... <java-config ...> ... </java-config>
+     */
+    private readJavaConfig(xml: string, config: ConfigBlock): JavaConfigBlock {
+        let javaConfigStart = xml.indexOf('<java-config', config.start);
+        let javaConfigEnd = xml.indexOf('</java-config>', javaConfigStart);
+        if (javaConfigStart < 0 || javaConfigEnd < 0 || javaConfigEnd > config.end) {
+            throw new Error(`java-config of ${config.name} not found in ${this.domainXmlPath}`);
+        }
+        let options: JvmOptionElement[] = [];
+        let pattern = /<jvm-options>([\s\S]*?)<\/jvm-options>/g;
+        pattern.lastIndex = javaConfigStart;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(xml)) !== null && match.index < javaConfigEnd) {
+            let indent = DomainConfigWriter.getIndent(xml, match.index);
+            options.push({
+                value: DomainConfigWriter.unescape(match[1]),
+                start: match.index,
+                end: match.index + match[0].length,
+                lineStart: match.index - indent.length - (indent.length > 0 || xml.charAt(match.index - 1) === '\n' ? 1 : 0),
+                indent: indent
+            });
+        }
+        return {
+            end: javaConfigEnd,
+            indent: DomainConfigWriter.getIndent(xml, javaConfigStart),
+            options: options
+        };
+    }
+
+}
+
+interface JavaConfigBlock {
+    /** Offset of the </java-config> closing tag. */
+    end: number;
+    indent: string;
+    options: JvmOptionElement[];
+}
+
+interface JvmOptionElement {
+    value: string;
+    start: number;
+    end: number;
+    /** Offset of the line break preceding the element, to remove the whole line. */
+    lineStart: number;
+    indent: string;
+}
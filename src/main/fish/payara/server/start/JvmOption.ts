@@ -21,6 +21,11 @@ import { JDKVersion } from "./JDKVersion";
 
 export class JvmOption {
 
+    /**
+     * The <jvm-options> element value, including the JDK version prefix.
+     */
+    public value: string;
+
     public option: string;
 
     public vendor: string | undefined;
@@ -32,6 +37,7 @@ export class JvmOption {
     static PATTERN: string = "^\\[(.*)\\|(.*)\\](.*)";
 
     public constructor(option: string) {
+        this.value = option;
         let matcher: RegExpMatchArray | null = option.match(JvmOption.PATTERN);
         if (matcher !== null && matcher.length === 4) {
             // [Azul-1.8.0|1.8.0u120]-Xbootclasspath
@@ -51,4 +57,12 @@ export class JvmOption {
         }
     }
 
+    /**
+     * @returns the JDK version prefix e.g [Azul-1.8.0|1.8.0u120], empty if the
+     * option applies to all JDKs.
+     */
+    public getPrefix(): string {
+        return this.value.substring(0, this.value.length - this.option.length);
+    }
+
 }
\ No newline at end of file
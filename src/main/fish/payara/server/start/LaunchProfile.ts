@@ -0,0 +1,37 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+/**
+ * Named start options of a local server, kept with the server in the
+ * extension storage rather than in the shared domain.xml, and applied on top
+ * of the domain.xml JVM options when the server is started.
+ */
+export interface LaunchProfile {
+    name: string;
+    /** Extra JVM options e.g -Xmx2g, overriding the domain.xml ones. */
+    jvmOptions?: string[];
+    /** System properties passed as -Dname=value. */
+    systemProperties?: { [name: string]: string };
+    /** Environment variables of the server process. */
+    env?: { [name: string]: string };
+    /** Suspends the JVM until a debugger is attached, in debug mode. */
+    debugSuspend?: boolean;
+    /** JDK used instead of the server JDK Home. */
+    jdkHome?: string;
+}
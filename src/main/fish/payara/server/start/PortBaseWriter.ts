@@ -0,0 +1,89 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import { ConfigBlock, DomainConfigWriter } from "./DomainConfigWriter";
+
+/**
+ * Shifts the ports of a stopped domain with a port base, the way
+ * create-domain --portbase assigns them.
+ */
+export class PortBaseWriter extends DomainConfigWriter {
+
+    public static ADMIN_PORT_OFFSET: number = 48;
+
+    public static HTTP_PORT_OFFSET: number = 80;
+
+    public static HTTPS_PORT_OFFSET: number = 81;
+
+    public static DEBUG_PORT_OFFSET: number = 9;
+
+    /**
+     * Port offsets of the listeners, keyed by element name and the attribute
+     * identifying the listener.
+     */
+    private static LISTENERS: Array<ListenerOffset> = [
+        { element: 'network-listener', key: 'name', value: 'admin-listener', offset: PortBaseWriter.ADMIN_PORT_OFFSET },
+        { element: 'network-listener', key: 'name', value: 'http-listener-1', offset: PortBaseWriter.HTTP_PORT_OFFSET },
+        { element: 'network-listener', key: 'name', value: 'http-listener-2', offset: PortBaseWriter.HTTPS_PORT_OFFSET },
+        { element: 'iiop-listener', key: 'id', value: 'orb-listener-1', offset: 37 },
+        { element: 'iiop-listener', key: 'id', value: 'SSL', offset: 38 },
+        { element: 'iiop-listener', key: 'id', value: 'SSL_MUTUALAUTH', offset: 39 },
+        { element: 'jms-host', key: 'name', value: 'default_JMS_host', offset: 76 },
+        { element: 'jmx-connector', key: 'name', value: 'system', offset: 86 }
+    ];
+
+    /**
+     * @returns all the ports a domain uses with the port base.
+     */
+    public static getPorts(portBase: number): number[] {
+        return [
+            ...PortBaseWriter.LISTENERS.map(listener => portBase + listener.offset),
+            portBase + PortBaseWriter.DEBUG_PORT_OFFSET
+        ];
+    }
+
+    public async applyPortBase(portBase: number): Promise<void> {
+        await this.update((xml, config) => {
+            let content = xml.substring(config.start, config.end);
+            for (let listener of PortBaseWriter.LISTENERS) {
+                content = this.replacePort(content, listener, portBase + listener.offset);
+            }
+            content = content.replace(/(<java-config\b[^>]*\bdebug-options="[^"]*\baddress=(?:[^,":]*:)?)(\d+)/,
+                `$1${portBase + PortBaseWriter.DEBUG_PORT_OFFSET}`);
+            return xml.substring(0, config.start) + content + xml.substring(config.end);
+        });
+    }
+
+    /**
+     * Replaces the numeric port attribute of the listener, ports given as
+     * ${system-property} are left as is.
+     */
+    private replacePort(content: string, listener: ListenerOffset, port: number): string {
+        let tag = new RegExp(`<${listener.element}\\b[^>]*\\b${listener.key}="${DomainConfigWriter.escapeRegExp(listener.value)}"[^>]*>`);
+        return content.replace(tag, element => element.replace(/\bport="\d+"/, `port="${port}"`));
+    }
+
+}
+
+interface ListenerOffset {
+    element: string;
+    key: string;
+    value: string;
+    offset: number;
+}
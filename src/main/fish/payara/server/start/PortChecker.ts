@@ -0,0 +1,101 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as net from "net";
+import { PortBaseWriter } from "./PortBaseWriter";
+
+/**
+ * Checks the local ports before a domain is started, and the ports listened
+ * by a server.
+ */
+export class PortChecker {
+
+    /**
+     * @returns true if the port can be bound on all interfaces.
+     */
+    public static isAvailable(port: number): Promise<boolean> {
+        return new Promise<boolean>(resolve => {
+            let server = net.createServer();
+            server.once('error', () => resolve(false));
+            server.once('listening', () => server.close(() => resolve(true)));
+            server.listen(port);
+        });
+    }
+
+    /**
+     * @returns true if a connection to the port is accepted within the
+     * timeout.
+     */
+    public static isReachable(host: string, port: number, timeout: number): Promise<boolean> {
+        return new Promise<boolean>(resolve => {
+            let socket = net.connect({ host: host, port: port });
+            socket.setTimeout(timeout, () => {
+                socket.destroy();
+                resolve(false);
+            });
+            socket.once('error', () => resolve(false));
+            socket.once('connect', () => {
+                socket.destroy();
+                resolve(true);
+            });
+        });
+    }
+
+    /**
+     * @returns the ports which are already in use.
+     */
+    public static async getUsedPorts(ports: number[]): Promise<number[]> {
+        let usedPorts: number[] = [];
+        for (let port of ports) {
+            if (!await PortChecker.isAvailable(port)) {
+                usedPorts.push(port);
+            }
+        }
+        return usedPorts;
+    }
+
+    /**
+     * Waits until all the ports are released.
+     *
+     * @returns false if a port is still in use after the retries.
+     */
+    public static async waitUntilAvailable(ports: number[], maxRetryCount: number, wait: number): Promise<boolean> {
+        for (let retry = 0; retry < maxRetryCount; retry++) {
+            if ((await PortChecker.getUsedPorts(ports)).length === 0) {
+                return true;
+            }
+            await new Promise(res => setTimeout(res, wait));
+        }
+        return (await PortChecker.getUsedPorts(ports)).length === 0;
+    }
+
+    /**
+     * @returns the first port base, in steps of 1000 from 10000, whose ports
+     * are all available.
+     */
+    public static async suggestPortBase(): Promise<number | undefined> {
+        for (let portBase = 10000; portBase <= 60000; portBase += 1000) {
+            if ((await PortChecker.getUsedPorts(PortBaseWriter.getPorts(portBase))).length === 0) {
+                return portBase;
+            }
+        }
+        return undefined;
+    }
+
+}
@@ -31,13 +31,16 @@ import { JvmConfigReader } from './JvmConfigReader';
 import { JDKVersion } from "./JDKVersion";
 import { ChildProcess } from 'child_process';
 import { PayaraLocalServerInstance } from "../PayaraLocalServerInstance";
+import { PortReader } from "./PortReader";
+import { LaunchProfile } from "./LaunchProfile";
 
 export class StartTask {
 
     public startServer(payaraServer: PayaraLocalServerInstance, debug: boolean, debugPort: string): ChildProcess {
         let jvmConfigReader: JvmConfigReader = new JvmConfigReader(payaraServer.getDomainXmlPath(), ServerUtils.DAS_NAME);
 
-        let javaHome: string | undefined = payaraServer.getJDKHome();
+        let launchProfile: LaunchProfile | undefined = payaraServer.getLaunchProfile();
+        let javaHome: string | undefined = launchProfile && launchProfile.jdkHome ? launchProfile.jdkHome : payaraServer.getJDKHome();
         if (!javaHome) {
             throw new Error("Java home path not found.");
         }
@@ -83,8 +86,15 @@ export class StartTask {
             if (this.isValidPort(debugPort)) {
                 debugOpt = debugOpt.replace(/address=\d+/, `address=${debugPort}`);
             }
+            if (launchProfile && launchProfile.debugSuspend) {
+                debugOpt = debugOpt.replace(/suspend=n/, 'suspend=y');
+            }
             optList.push(debugOpt);
         }
+        // launch profile options come last to override the domain.xml ones
+        if (launchProfile) {
+            optList.push(...this.getLaunchProfileOptions(launchProfile));
+        }
 
         javaOpts = this.appendOptions(optList, varMap);
         javaOpts += this.appendVarMap(varMap);
@@ -102,7 +112,46 @@ export class StartTask {
             throw new Error("Java VM " + javaVmExe + " executable for " + payaraServer.getName() + " was not found");
         }
         let args: string[] = JavaUtils.parseParameters(allArgs);
-        return cp.spawn(javaVmExe, args, { cwd: payaraServer.getPath() });
+        let env = launchProfile && launchProfile.env ? { ...process.env, ...launchProfile.env } : undefined;
+        return cp.spawn(javaVmExe, args, { cwd: payaraServer.getPath(), env: env });
+    }
+
+    /**
+     * @returns the JVM options and system properties of the launch profile.
+     */
+    private getLaunchProfileOptions(launchProfile: LaunchProfile): Array<string> {
+        let options: Array<string> = (launchProfile.jvmOptions || []).filter(option => option.trim().length > 0);
+        let systemProperties = launchProfile.systemProperties || {};
+        for (let name of Object.keys(systemProperties)) {
+            options.push(`-D${name}=${systemProperties[name]}`);
+        }
+        return options;
+    }
+
+    /**
+     * @returns the local ports the domain binds when it is started.
+     */
+    public getRequiredPorts(payaraServer: PayaraLocalServerInstance, debug: boolean, debugPort: string): Array<ServerPort> {
+        let portReader: PortReader = new PortReader(payaraServer.getDomainXmlPath(), ServerUtils.DAS_NAME);
+        let ports: Array<ServerPort> = [
+            { name: 'admin', port: portReader.getAdminPort() },
+            { name: 'HTTP', port: portReader.getHttpPort() },
+            { name: 'HTTPS', port: portReader.getHttpsPort() }
+        ];
+        if (debug) {
+            if (this.isValidPort(debugPort)) {
+                ports.push({ name: 'debug', port: parseInt(debugPort, 10) });
+            } else {
+                let jvmConfigReader: JvmConfigReader = new JvmConfigReader(payaraServer.getDomainXmlPath(), ServerUtils.DAS_NAME);
+                let debugOpt: string | undefined = jvmConfigReader.getPropMap().get("debug-options");
+                let address = debugOpt ? debugOpt.match(/address=(?:[^,:]*:)?(\d+)/) : null;
+                if (address) {
+                    ports.push({ name: 'debug', port: parseInt(address[1], 10) });
+                }
+            }
+        }
+        // ports defined as ${system-property} are not resolved
+        return ports.filter(serverPort => !isNaN(serverPort.port) && serverPort.port > 0);
     }
 
     private isValidPort(portStr?: string): boolean {
@@ -304,4 +353,9 @@ export class StartTask {
         }
         return result;
     }
-}
\ No newline at end of file
+}
+
+export interface ServerPort {
+    name: string;
+    port: number;
+}
@@ -0,0 +1,67 @@
+'use strict';
+
+/*
+ * Copyright (c) 2026 Payara Foundation and/or its affiliates and others.
+ * All rights reserved.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0, which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the
+ * Eclipse Public License v. 2.0 are satisfied: GNU General Public License,
+ * version 2 with the GNU Classpath Exception, which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { IncomingMessage } from 'http';
+import { ServerUtils } from './ServerUtils';
+
+export class HttpUtils {
+
+    /**
+     * Reads a resource served by the HTTP listener of a server, self signed
+     * certificates are accepted.
+     *
+     * @param url         URL of the resource.
+     * @param accept      media type requested.
+     * @param statusCodes response codes for which the body is returned.
+     * @return the response body.
+     */
+    public static get(url: string, accept: string, statusCodes: number[] = [200]): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            let target = new URL(url);
+            let options: https.RequestOptions = {
+                hostname: target.hostname,
+                port: target.port,
+                path: target.pathname + target.search,
+                headers: { 'Accept': accept },
+                rejectUnauthorized: false // permits self signed cert
+            };
+            let callback = (response: IncomingMessage) => {
+                let chunks: Buffer[] = [];
+                response.on('data', (chunk: Buffer) => chunks.push(chunk));
+                response.on('error', reject);
+                response.on('end', () => {
+                    if (statusCodes.indexOf(response.statusCode || 0) > -1) {
+                        resolve(Buffer.concat(chunks).toString('utf8'));
+                    } else {
+                        reject(new Error(`Error in calling endpoint: ${url}, Response Code: ${response.statusCode}`));
+                    }
+                });
+            };
+            let request = target.protocol === 'https:' ? https.request(options, callback) : http.request(options, callback);
+            request.on('error', reject);
+            request.setTimeout(ServerUtils.DEFAULT_REQUEST_TIMEOUT, () => request.destroy(
+                new Error(`Request ${url} timed out after ${ServerUtils.DEFAULT_REQUEST_TIMEOUT} ms.`)
+            ));
+            request.end();
+        });
+    }
+
+}
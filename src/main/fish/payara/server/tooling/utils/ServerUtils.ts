@@ -72,6 +72,9 @@ export class ServerUtils {
     public static DEFAULT_HTTP_PORT: number = 8080;
     public static DEFAULT_HOST: string = 'localhost';
 
+    /** Default debug port of the domain.xml debug-options. */
+    public static DEFAULT_DEBUG_PORT: number = 9009;
+
     /** Default name of the DAS server. */
     public static DAS_NAME: string = "server";
 
@@ -81,6 +84,12 @@ export class ServerUtils {
     /** Default sleep time in millisecond before retry to check alive status of server. */
     public static DEFAULT_WAIT: number = 3000;
 
+    /** Default time in millisecond to wait for the response of an asadmin command. */
+    public static DEFAULT_REQUEST_TIMEOUT: number = 60000;
+
+    /** Default time in millisecond to wait for the server process to exit once stopped. */
+    public static DEFAULT_STOP_TIMEOUT: number = 60000;
+
     /**
      * Builds command line argument containing argument identifier, space
      * and argument value, e.g. <code>--name value</code>.
@@ -51,4 +51,19 @@ export class StringUtils {
         return path.replace("\\", "\\\\").replace("$", "\\$");
     }
 
-}
\ No newline at end of file
+    /**
+     * Escapes the HTML special characters of a text rendered in a webview.
+     *
+     * @param value text to escape.
+     * @return text safe to use in an element or attribute value.
+     */
+    public static escapeHtml(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+
+}